@@ -0,0 +1,7 @@
+/** @type {import("ts-jest").JestConfigWithTsJest} */
+module.exports = {
+  preset: "ts-jest",
+  testEnvironment: "node",
+  roots: ["<rootDir>/src"],
+  setupFiles: ["<rootDir>/src/test/setup.ts"],
+}
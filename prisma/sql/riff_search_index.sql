@@ -0,0 +1,13 @@
+-- GIN index backing GET /api/riffs/search.
+-- The expression must stay identical to riffSearchVector in src/api/services/searchService.ts,
+-- otherwise Postgres will not use the index.
+CREATE INDEX IF NOT EXISTS "Riff_search_idx" ON "Riff" USING GIN ((
+  setweight(to_tsvector('english', coalesce("title", '')), 'A') ||
+  setweight(to_tsvector('english', coalesce("genre", '') || ' ' || coalesce("mood", '') || ' ' || coalesce("instrument", '')), 'B') ||
+  setweight(to_tsvector('english', coalesce("description", '')), 'C')
+));
+
+-- Artist names are matched through the join on "User"
+CREATE INDEX IF NOT EXISTS "User_name_search_idx" ON "User" USING GIN ((
+  to_tsvector('english', coalesce("name", ''))
+));
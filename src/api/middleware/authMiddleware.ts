@@ -1,6 +1,7 @@
 import type { Request, Response, NextFunction } from "express"
-import jwt from "jsonwebtoken"
 import { PrismaClient } from "@prisma/client"
+import { verifyAccessToken } from "../services/authService"
+import { verifySiweMessage } from "../services/siweService"
 import logger from "../../config/logger"
 
 const prisma = new PrismaClient()
@@ -10,6 +11,7 @@ declare global {
   namespace Express {
     interface Request {
       user?: any
+      walletAddress?: string
     }
   }
 }
@@ -29,7 +31,7 @@ export const authMiddleware = async (req: Request, res: Response, next: NextFunc
     }
 
     // Verify token
-    const decoded = jwt.verify(token, process.env.JWT_SECRET || "default_secret") as any
+    const decoded = verifyAccessToken(token)
     logger.debug("Token verified", { userId: decoded.id })
 
     // Check if user exists
@@ -61,20 +63,26 @@ export const authMiddleware = async (req: Request, res: Response, next: NextFunc
   }
 }
 
-// Middleware to check wallet ownership
+// Middleware to check wallet ownership via a signed EIP-4361 (SIWE) message
 export const walletAuthMiddleware = async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const { walletAddress } = req.body
+    const { message, signature } = req.body
 
-    if (!walletAddress) {
-      logger.warn(`Wallet authentication failed: No wallet address`, { path: req.path })
-      return res.status(400).json({ message: "Wallet address required" })
+    if (!message || !signature) {
+      logger.warn(`Wallet authentication failed: No signed message`, { path: req.path })
+      return res.status(400).json({ message: "Signed message and signature required" })
     }
 
-    // In a real implementation, you would verify a signed message here
-    // For now, we'll just check if the wallet exists in our database
-    const wallet = await prisma.wallet.findUnique({
-      where: { address: walletAddress },
+    const verification = await verifySiweMessage(message, signature)
+
+    if (!verification.success) {
+      logger.warn(`Wallet authentication failed: ${verification.reason}`, { path: req.path })
+      return res.status(401).json({ message: verification.reason })
+    }
+
+    const walletAddress = verification.address
+    const wallet = await prisma.wallet.findFirst({
+      where: { address: { equals: walletAddress, mode: "insensitive" } },
       include: { user: true },
     })
 
@@ -84,6 +92,7 @@ export const walletAuthMiddleware = async (req: Request, res: Response, next: Ne
     }
 
     req.user = wallet.user
+    req.walletAddress = walletAddress
     logger.debug(`Wallet authenticated: ${walletAddress} for user: ${wallet.user.id}`, { path: req.path })
     next()
   } catch (error) {
@@ -0,0 +1,110 @@
+import express from "express"
+import request from "supertest"
+import { prismaMock } from "../../../test/prismaMock"
+import { transferNFT } from "../../services/blockchainService"
+import { postTransaction, postTransfer } from "../../services/ledgerService"
+import { distributeRoyalties } from "../../services/royaltyService"
+import { nftRoutes } from "../nftRoutes"
+
+jest.mock("../../middleware/authMiddleware", () => ({
+  authMiddleware: (req: express.Request, _res: express.Response, next: express.NextFunction) => {
+    req.user = { id: "buyer", name: "Buyer" }
+    next()
+  },
+}))
+
+jest.mock("../../services/blockchainService", () => ({
+  transferNFT: jest.fn(async () => ({ transactionHash: "0xhash" })),
+}))
+jest.mock("../../services/royaltyService", () => ({
+  distributeRoyalties: jest.fn(async () => ({ royaltyAmount: 5, payouts: [], upstreamPayouts: [] })),
+}))
+jest.mock("../../services/mintingService", () => ({ mintEvents: { on: jest.fn() }, startMint: jest.fn() }))
+jest.mock("../../services/notificationService", () => ({ notify: jest.fn() }))
+jest.mock("../../services/ledgerService", () => ({
+  ...jest.requireActual("../../services/ledgerService"),
+  postTransaction: jest.fn(),
+  postTransfer: jest.fn(),
+}))
+
+const app = express()
+app.use(express.json())
+app.use("/api/nfts", nftRoutes)
+
+function listedNft(currency: string) {
+  return {
+    id: "nft-1",
+    riffId: "riff-1",
+    tokenId: "7",
+    status: "confirmed",
+    isListed: true,
+    ownerId: "seller",
+    price: 50,
+    currency,
+    riff: { title: "Riff" },
+  }
+}
+
+beforeEach(() => {
+  jest.clearAllMocks()
+  prismaMock.wallet.findFirst.mockImplementation(async (args) => ({ address: `0x${String(args?.where?.userId)}` }))
+  prismaMock.nFT.updateMany.mockResolvedValue({ count: 1 })
+})
+
+describe("POST /api/nfts/:id/buy", () => {
+  it("refuses an NFT priced in a currency the ledger cannot collect", async () => {
+    prismaMock.nFT.findUnique.mockResolvedValue(listedNft("ETH"))
+
+    const response = await request(app).post("/api/nfts/nft-1/buy")
+
+    expect(response.status).toBe(400)
+    expect(response.body.message).toBe("NFT is priced in ETH, which cannot be settled")
+    expect(prismaMock.nFT.updateMany).not.toHaveBeenCalled()
+    expect(transferNFT).not.toHaveBeenCalled()
+    expect(prismaMock.sale.create).not.toHaveBeenCalled()
+    expect(distributeRoyalties).not.toHaveBeenCalled()
+  })
+
+  it("escrows the price before the transfer and settles it with the sale", async () => {
+    prismaMock.nFT.findUnique.mockResolvedValue(listedNft("RIFF"))
+    prismaMock.sale.create.mockImplementation(async ({ data }) => ({ id: "sale-1", ...data }))
+
+    const response = await request(app).post("/api/nfts/nft-1/buy")
+
+    expect(response.status).toBe(201)
+    expect(postTransfer).toHaveBeenCalledWith(
+      expect.anything(),
+      "sale_escrow",
+      "user:buyer",
+      "system:escrow",
+      50,
+      "nft-1",
+    )
+    expect(jest.mocked(postTransfer).mock.invocationCallOrder[0]).toBeLessThan(
+      jest.mocked(transferNFT).mock.invocationCallOrder[0],
+    )
+    expect(postTransaction).toHaveBeenCalledWith(expect.anything(), expect.objectContaining({ type: "sale" }))
+  })
+})
+
+describe("POST /api/nfts/:id/list", () => {
+  it("rejects a currency other than RIFF", async () => {
+    prismaMock.nFT.findUnique.mockResolvedValue({ ...listedNft("RIFF"), isListed: false, ownerId: "buyer" })
+
+    const response = await request(app).post("/api/nfts/nft-1/list").send({ price: 10, currency: "ETH" })
+
+    expect(response.status).toBe(400)
+    expect(response.body.message).toBe("Currency must be RIFF")
+    expect(prismaMock.nFT.update).not.toHaveBeenCalled()
+  })
+})
+
+describe("POST /api/nfts/mint", () => {
+  it("rejects a currency other than RIFF", async () => {
+    const response = await request(app).post("/api/nfts/mint").send({ riffId: "riff-1", price: "10", currency: "ETH" })
+
+    expect(response.status).toBe(400)
+    expect(response.body.message).toBe("Currency must be RIFF")
+    expect(prismaMock.nFT.create).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,209 @@
+import express from "express"
+import { PrismaClient } from "@prisma/client"
+import { authMiddleware, walletAuthMiddleware } from "../middleware/authMiddleware"
+import {
+  hashPassword,
+  issueTokens,
+  revokeAllRefreshTokens,
+  revokeRefreshToken,
+  rotateRefreshToken,
+  sanitizeUser,
+  verifyPassword,
+} from "../services/authService"
+import { createNonce, isValidAddress } from "../services/siweService"
+import logger from "../../config/logger"
+
+const router = express.Router()
+const prisma = new PrismaClient()
+
+const MIN_PASSWORD_LENGTH = 8
+
+// Register a new user
+router.post("/register", async (req, res) => {
+  try {
+    const { email, password, name } = req.body
+    logger.info("Registering new user", { email })
+
+    if (!email || !password) {
+      logger.warn("Registration failed: missing credentials")
+      return res.status(400).json({ message: "Email and password are required" })
+    }
+
+    if (typeof password !== "string" || password.length < MIN_PASSWORD_LENGTH) {
+      logger.warn("Registration failed: password too short", { email })
+      return res.status(400).json({ message: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` })
+    }
+
+    const normalizedEmail = String(email).trim().toLowerCase()
+
+    // Check if email is already taken
+    const existingUser = await prisma.user.findUnique({
+      where: { email: normalizedEmail },
+    })
+
+    if (existingUser) {
+      logger.warn(`Registration failed: email already in use`, { email: normalizedEmail })
+      return res.status(409).json({ message: "Email is already registered" })
+    }
+
+    const user = await prisma.user.create({
+      data: {
+        email: normalizedEmail,
+        name,
+        passwordHash: await hashPassword(password),
+      },
+    })
+
+    const tokens = await issueTokens(user.id)
+
+    logger.info(`User registered successfully: ${user.id}`)
+    res.status(201).json({ user: sanitizeUser(user), ...tokens })
+  } catch (error) {
+    logger.error(`Error registering user: ${error}`, { email: req.body?.email })
+    res.status(500).json({ message: "Server error" })
+  }
+})
+
+// Login with email and password
+router.post("/login", async (req, res) => {
+  try {
+    const { email, password } = req.body
+    logger.info("Login attempt", { email })
+
+    if (!email || !password) {
+      logger.warn("Login failed: missing credentials")
+      return res.status(400).json({ message: "Email and password are required" })
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: String(email).trim().toLowerCase() },
+    })
+
+    if (!user || !user.passwordHash || !(await verifyPassword(password, user.passwordHash))) {
+      logger.warn("Login failed: invalid credentials", { email })
+      return res.status(401).json({ message: "Invalid email or password" })
+    }
+
+    const tokens = await issueTokens(user.id)
+
+    logger.info(`User logged in successfully: ${user.id}`)
+    res.json({ user: sanitizeUser(user), ...tokens })
+  } catch (error) {
+    logger.error(`Error logging in: ${error}`, { email: req.body?.email })
+    res.status(500).json({ message: "Server error" })
+  }
+})
+
+// Exchange a refresh token for a new token pair
+router.post("/refresh", async (req, res) => {
+  try {
+    const { refreshToken } = req.body
+    logger.info("Refreshing access token")
+
+    if (!refreshToken) {
+      logger.warn("Token refresh failed: no refresh token provided")
+      return res.status(400).json({ message: "Refresh token is required" })
+    }
+
+    const tokens = await rotateRefreshToken(refreshToken)
+
+    if (!tokens) {
+      return res.status(401).json({ message: "Invalid or expired refresh token" })
+    }
+
+    logger.info(`Access token refreshed for user ${tokens.userId}`)
+    res.json(tokens)
+  } catch (error) {
+    logger.error(`Error refreshing token: ${error}`)
+    res.status(500).json({ message: "Server error" })
+  }
+})
+
+// Revoke a refresh token, or every session of the user with `all`
+router.post("/logout", authMiddleware, async (req, res) => {
+  try {
+    const userId = req.user.id
+    const { refreshToken, all } = req.body
+    logger.info(`Logging out user ${userId}`, { all: !!all })
+
+    if (all) {
+      const revoked = await revokeAllRefreshTokens(userId)
+      return res.json({ message: "Logged out of all sessions", revoked })
+    }
+
+    if (!refreshToken) {
+      logger.warn("Logout failed: no refresh token provided", { userId })
+      return res.status(400).json({ message: "Refresh token is required" })
+    }
+
+    await revokeRefreshToken(refreshToken)
+
+    logger.info(`User logged out successfully: ${userId}`)
+    res.json({ message: "Logged out successfully" })
+  } catch (error) {
+    logger.error(`Error logging out: ${error}`, { userId: req.user?.id })
+    res.status(500).json({ message: "Server error" })
+  }
+})
+
+// Get a single-use nonce to embed in a Sign-In with Ethereum message
+router.get("/nonce", async (req, res) => {
+  try {
+    const { address } = req.query
+    logger.info("Issuing wallet sign-in nonce", { address })
+
+    if (address !== undefined && (typeof address !== "string" || !isValidAddress(address))) {
+      logger.warn("Nonce request with invalid address", { address })
+      return res.status(400).json({ message: "Invalid wallet address" })
+    }
+
+    const nonce = await createNonce(address || undefined)
+    res.json(nonce)
+  } catch (error) {
+    logger.error(`Error issuing wallet nonce: ${error}`, { address: req.query?.address })
+    res.status(500).json({ message: "Server error" })
+  }
+})
+
+// Login with a signed Sign-In with Ethereum message
+router.post("/wallet", walletAuthMiddleware, async (req, res) => {
+  try {
+    const userId = req.user.id
+    logger.info(`Wallet login for user ${userId}`, { walletAddress: req.walletAddress })
+
+    const tokens = await issueTokens(userId)
+
+    logger.info(`User logged in with wallet successfully: ${userId}`)
+    res.json({ user: sanitizeUser(req.user), walletAddress: req.walletAddress, ...tokens })
+  } catch (error) {
+    logger.error(`Error logging in with wallet: ${error}`, { userId: req.user?.id })
+    res.status(500).json({ message: "Server error" })
+  }
+})
+
+// Get current user info
+router.get("/me", authMiddleware, async (req, res) => {
+  try {
+    const userId = req.user.id
+    logger.info(`Fetching current user ${userId}`)
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      include: {
+        wallets: true,
+      },
+    })
+
+    if (!user) {
+      logger.warn(`User not found: ${userId}`)
+      return res.status(404).json({ message: "User not found" })
+    }
+
+    res.json(sanitizeUser(user))
+  } catch (error) {
+    logger.error(`Error fetching current user: ${error}`, { userId: req.user?.id })
+    res.status(500).json({ message: "Server error" })
+  }
+})
+
+export const authRoutes = router
@@ -0,0 +1,403 @@
+import express from "express"
+import { PrismaClient } from "@prisma/client"
+import multer from "multer"
+import path from "path"
+import fs from "fs"
+import { authMiddleware } from "../middleware/authMiddleware"
+import { getStorage, safeKeyFilename } from "../services/storageService"
+import { deleteObjects } from "../services/storageGcService"
+import { withRiffStats } from "../services/riffStatsService"
+import {
+  checkCollectionAssignment,
+  getCollectionStats,
+  MAX_COLLECTION_DESCRIPTION_LENGTH,
+  MAX_COLLECTION_NAME_LENGTH,
+  nextCollectionPosition,
+} from "../services/collectionService"
+import { pageArgs, parsePageParams, toPage } from "../utils/pagination"
+import { publicUserSelect } from "../utils/projections"
+import { isSupportedMimeType, verifyFileType } from "../utils/fileSignatures"
+import logger from "../../config/logger"
+
+const router = express.Router()
+const prisma = new PrismaClient()
+
+// Most riffs a single bulk move may touch
+const MAX_BULK_RIFFS = 100
+
+const upload = multer({
+  storage: multer.diskStorage({
+    destination: (req, file, cb) => {
+      const uploadDir = path.join(__dirname, "../../../uploads")
+      if (!fs.existsSync(uploadDir)) {
+        fs.mkdirSync(uploadDir, { recursive: true })
+      }
+      cb(null, uploadDir)
+    },
+    filename: (req, file, cb) => {
+      const uniqueSuffix = Date.now() + "-" + Math.round(Math.random() * 1e9)
+      cb(null, uniqueSuffix + path.extname(file.originalname))
+    },
+  }),
+  limits: { fileSize: 10 * 1024 * 1024 }, // 10MB limit
+  fileFilter: (req, file, cb) => {
+    if (isSupportedMimeType("image", file.mimetype)) {
+      cb(null, true)
+    } else {
+      logger.warn("Invalid file type: image file expected", { mimetype: file.mimetype, fieldname: file.fieldname })
+      cb(new Error("Only JPEG, PNG and WebP images are allowed"))
+    }
+  },
+})
+
+/**
+ * Validate the editable fields of a collection
+ * @param body Request body
+ * @param requireName Whether the name must be present (on create)
+ * @returns Error message, or null if valid
+ */
+function validateCollectionFields(body: any, requireName: boolean): string | null {
+  const { name, description } = body
+
+  if (name !== undefined || requireName) {
+    if (typeof name !== "string" || name.trim() === "") {
+      return "name is required"
+    }
+    if (name.trim().length > MAX_COLLECTION_NAME_LENGTH) {
+      return `name must be at most ${MAX_COLLECTION_NAME_LENGTH} characters`
+    }
+  }
+
+  if (description !== undefined && description !== null) {
+    if (typeof description !== "string" || description.length > MAX_COLLECTION_DESCRIPTION_LENGTH) {
+      return `description must be a string of at most ${MAX_COLLECTION_DESCRIPTION_LENGTH} characters`
+    }
+  }
+
+  return null
+}
+
+/**
+ * Verify and store an uploaded cover image
+ * @param userId ID of the artist
+ * @param file Uploaded file
+ * @returns Stored object, or an error message if the content is not a supported image
+ */
+async function storeCoverImage(userId: string, file: Express.Multer.File) {
+  const buffer = await fs.promises.readFile(file.path)
+  const type = verifyFileType(buffer, "image", file.mimetype)
+
+  if (type.error !== undefined) {
+    return { error: `coverImage: ${type.error}` }
+  }
+
+  const key = `covers/${userId}/${Date.now()}-${safeKeyFilename(file.originalname, type.type.extension)}`
+  return { stored: await getStorage().upload(key, buffer, { contentType: type.type.mimeType }) }
+}
+
+// Create a collection
+router.post("/", authMiddleware, upload.single("coverImage"), async (req, res) => {
+  let storedKey: string | null = null
+
+  try {
+    const userId = req.user.id
+    const { name, description } = req.body
+    logger.info(`Creating collection for user ${userId}`, { name, hasCoverImage: !!req.file })
+
+    const validationError = validateCollectionFields(req.body, true)
+    if (validationError) {
+      return res.status(400).json({ message: validationError })
+    }
+
+    let coverImageUrl: string | null = null
+    if (req.file) {
+      const cover = await storeCoverImage(userId, req.file)
+      if (!cover.stored) {
+        return res.status(400).json({ message: cover.error })
+      }
+      storedKey = cover.stored.key
+      coverImageUrl = cover.stored.url
+    }
+
+    const collection = await prisma.collection.create({
+      data: {
+        name: name.trim(),
+        description: description || null,
+        coverImageUrl,
+        position: await nextCollectionPosition(userId),
+        userId,
+      },
+    })
+
+    logger.info(`Collection created: ${collection.id}`, { userId })
+    res.status(201).json(collection)
+  } catch (error) {
+    logger.error(`Error creating collection: ${error}`, { userId: req.user?.id })
+    if (storedKey) await deleteObjects([storedKey], { userId: req.user?.id })
+    res.status(500).json({ message: "Server error" })
+  } finally {
+    if (req.file) await fs.promises.rm(req.file.path, { force: true })
+  }
+})
+
+// Reorder the current user's collections
+router.put("/order", authMiddleware, async (req, res) => {
+  try {
+    const userId = req.user.id
+    const { collectionIds } = req.body
+    logger.info(`Reordering collections for user ${userId}`)
+
+    if (!Array.isArray(collectionIds) || !collectionIds.every((id) => typeof id === "string")) {
+      return res.status(400).json({ message: "collectionIds must be a list of collection IDs" })
+    }
+
+    const collections = await prisma.collection.findMany({
+      where: { userId },
+      orderBy: [{ position: "asc" }, { createdAt: "desc" }, { id: "desc" }],
+      select: { id: true },
+    })
+
+    const ownIds = new Set(collections.map((collection) => collection.id))
+    const requested = [...new Set(collectionIds as string[])]
+    const foreign = requested.filter((id) => !ownIds.has(id))
+
+    if (foreign.length > 0) {
+      logger.warn(`Attempted to reorder collections not owned by user ${userId}`, { collectionIds: foreign })
+      return res.status(403).json({ message: "Not authorized to reorder these collections" })
+    }
+
+    // Collections left out keep their relative order after the listed ones
+    const rest = collections.map((collection) => collection.id).filter((id) => !requested.includes(id))
+    const ordered = [...requested, ...rest]
+
+    await prisma.$transaction(
+      ordered.map((id, position) =>
+        prisma.collection.update({
+          where: { id },
+          data: { position },
+        }),
+      ),
+    )
+
+    logger.info(`Collections reordered for user ${userId}`, { count: ordered.length })
+    res.json({ collectionIds: ordered })
+  } catch (error) {
+    logger.error(`Error reordering collections: ${error}`, { userId: req.user?.id })
+    res.status(500).json({ message: "Server error" })
+  }
+})
+
+// Move riffs into a collection, or out of any collection with collectionId null
+router.post("/move-riffs", authMiddleware, async (req, res) => {
+  try {
+    const userId = req.user.id
+    const { riffIds, collectionId } = req.body
+    logger.info(`Moving riffs to collection: ${collectionId}`, { userId, count: riffIds?.length })
+
+    if (!Array.isArray(riffIds) || riffIds.length === 0 || !riffIds.every((id) => typeof id === "string")) {
+      return res.status(400).json({ message: "riffIds must be a non-empty list of riff IDs" })
+    }
+
+    if (riffIds.length > MAX_BULK_RIFFS) {
+      return res.status(400).json({ message: `At most ${MAX_BULK_RIFFS} riffs can be moved at once` })
+    }
+
+    if (collectionId !== null && typeof collectionId !== "string") {
+      return res.status(400).json({ message: "collectionId must be a collection ID or null" })
+    }
+
+    if (collectionId) {
+      const assignmentError = await checkCollectionAssignment(userId, collectionId)
+      if (assignmentError) {
+        return res.status(assignmentError.status).json({ message: assignmentError.error })
+      }
+    }
+
+    const ids = [...new Set(riffIds as string[])]
+    const riffs = await prisma.riff.findMany({
+      where: { id: { in: ids } },
+      select: { id: true, userId: true },
+    })
+
+    if (riffs.length !== ids.length) {
+      const found = new Set(riffs.map((riff) => riff.id))
+      return res.status(400).json({ message: `Riff not found: ${ids.find((id) => !found.has(id))}` })
+    }
+
+    const foreign = riffs.filter((riff) => riff.userId !== userId)
+    if (foreign.length > 0) {
+      logger.warn(`Attempted to move riffs not owned by user ${userId}`, { riffIds: foreign.map((riff) => riff.id) })
+      return res.status(403).json({ message: "Not authorized to move these riffs" })
+    }
+
+    const moved = await prisma.riff.updateMany({
+      where: { id: { in: ids }, userId },
+      data: { collectionId: collectionId || null },
+    })
+
+    logger.info(`Riffs moved to collection: ${collectionId}`, { userId, moved: moved.count })
+    res.json({ moved: moved.count, collectionId: collectionId || null })
+  } catch (error) {
+    logger.error(`Error moving riffs: ${error}`, { userId: req.user?.id })
+    res.status(500).json({ message: "Server error" })
+  }
+})
+
+// Get a collection page with its riffs and aggregate stats (public)
+router.get("/:id", async (req, res) => {
+  try {
+    const { id } = req.params
+    const page = parsePageParams(req.query)
+    logger.info(`Fetching collection: ${id}`, page)
+
+    const collection = await prisma.collection.findUnique({
+      where: { id },
+      include: { user: { select: publicUserSelect } },
+    })
+
+    if (!collection) {
+      logger.warn(`Collection not found: ${id}`)
+      return res.status(404).json({ message: "Collection not found" })
+    }
+
+    const [riffs, stats] = await Promise.all([
+      prisma.riff.findMany({
+        where: { collectionId: id },
+        orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+        ...pageArgs(page),
+        include: {
+          user: { select: publicUserSelect },
+          nft: true,
+        },
+      }),
+      getCollectionStats(id),
+    ])
+
+    const { items, nextCursor } = toPage(riffs, page)
+
+    logger.debug(`Collection found: ${id}`, { riffCount: stats.riffCount })
+    res.json({ ...collection, stats, riffs: { items: await withRiffStats(items), nextCursor } })
+  } catch (error) {
+    logger.error(`Error fetching collection: ${error}`, { id: req.params.id })
+    res.status(500).json({ message: "Server error" })
+  }
+})
+
+// Update a collection's name, description or cover art
+router.put("/:id", authMiddleware, upload.single("coverImage"), async (req, res) => {
+  let storedKey: string | null = null
+
+  try {
+    const { id } = req.params
+    const userId = req.user.id
+    const { name, description, removeCoverImage } = req.body
+    logger.info(`Updating collection: ${id}`, { userId, hasCoverImage: !!req.file })
+
+    const collection = await prisma.collection.findUnique({
+      where: { id },
+    })
+
+    if (!collection) {
+      logger.warn(`Collection not found for update: ${id}`)
+      return res.status(404).json({ message: "Collection not found" })
+    }
+
+    if (collection.userId !== userId) {
+      logger.warn(`Unauthorized collection update attempt: ${id}`, {
+        requestUserId: userId,
+        ownerUserId: collection.userId,
+      })
+      return res.status(403).json({ message: "Not authorized to update this collection" })
+    }
+
+    const validationError = validateCollectionFields(req.body, false)
+    if (validationError) {
+      return res.status(400).json({ message: validationError })
+    }
+
+    let coverImageUrl: string | null | undefined
+    if (req.file) {
+      const cover = await storeCoverImage(userId, req.file)
+      if (!cover.stored) {
+        return res.status(400).json({ message: cover.error })
+      }
+      storedKey = cover.stored.key
+      coverImageUrl = cover.stored.url
+    } else if (removeCoverImage === true || removeCoverImage === "true") {
+      coverImageUrl = null
+    }
+
+    const updatedCollection = await prisma.collection.update({
+      where: { id },
+      data: {
+        name: typeof name === "string" ? name.trim() : undefined,
+        description: description === undefined ? undefined : description || null,
+        coverImageUrl,
+      },
+    })
+
+    // Drop the replaced cover once the new one is saved
+    const previousKey = collection.coverImageUrl ? getStorage().getKeyFromUrl(collection.coverImageUrl) : null
+    if (coverImageUrl !== undefined && previousKey) {
+      await deleteObjects([previousKey], { collectionId: id })
+    }
+
+    logger.info(`Collection updated: ${id}`)
+    res.json(updatedCollection)
+  } catch (error) {
+    logger.error(`Error updating collection: ${error}`, { id: req.params.id, userId: req.user?.id })
+    if (storedKey) await deleteObjects([storedKey], { collectionId: req.params.id })
+    res.status(500).json({ message: "Server error" })
+  } finally {
+    if (req.file) await fs.promises.rm(req.file.path, { force: true })
+  }
+})
+
+// Delete a collection; its riffs are kept and become unassigned
+router.delete("/:id", authMiddleware, async (req, res) => {
+  try {
+    const { id } = req.params
+    const userId = req.user.id
+    logger.info(`Deleting collection: ${id}`, { userId })
+
+    const collection = await prisma.collection.findUnique({
+      where: { id },
+    })
+
+    if (!collection) {
+      logger.warn(`Collection not found for deletion: ${id}`)
+      return res.status(404).json({ message: "Collection not found" })
+    }
+
+    if (collection.userId !== userId) {
+      logger.warn(`Unauthorized collection deletion attempt: ${id}`, {
+        requestUserId: userId,
+        ownerUserId: collection.userId,
+      })
+      return res.status(403).json({ message: "Not authorized to delete this collection" })
+    }
+
+    await prisma.$transaction([
+      prisma.riff.updateMany({
+        where: { collectionId: id },
+        data: { collectionId: null },
+      }),
+      prisma.collection.delete({
+        where: { id },
+      }),
+    ])
+
+    const coverKey = collection.coverImageUrl ? getStorage().getKeyFromUrl(collection.coverImageUrl) : null
+    if (coverKey) {
+      await deleteObjects([coverKey], { collectionId: id })
+    }
+
+    logger.info(`Collection deleted: ${id}`)
+    res.json({ message: "Collection deleted successfully" })
+  } catch (error) {
+    logger.error(`Error deleting collection: ${error}`, { id: req.params.id, userId: req.user?.id })
+    res.status(500).json({ message: "Server error" })
+  }
+})
+
+export const collectionRoutes = router
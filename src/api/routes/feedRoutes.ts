@@ -0,0 +1,26 @@
+import express from "express"
+import { authMiddleware } from "../middleware/authMiddleware"
+import { getFeed } from "../services/activityService"
+import { parsePageParams } from "../utils/pagination"
+import logger from "../../config/logger"
+
+const router = express.Router()
+
+// Get the current user's feed: new riffs, mints, tips and staking milestones of followed artists and riffs
+router.get("/", authMiddleware, async (req, res) => {
+  try {
+    const userId = req.user.id
+    const page = parsePageParams(req.query)
+    logger.info(`Fetching feed for user ${userId}`, page)
+
+    const { items, nextCursor } = await getFeed(userId, page)
+
+    logger.debug(`Found ${items.length} feed events for user ${userId}`, { nextCursor })
+    res.json({ items, nextCursor })
+  } catch (error) {
+    logger.error(`Error fetching feed: ${error}`, { userId: req.user?.id })
+    res.status(500).json({ message: "Server error" })
+  }
+})
+
+export const feedRoutes = router
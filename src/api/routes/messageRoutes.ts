@@ -0,0 +1,264 @@
+import express from "express"
+import { PrismaClient } from "@prisma/client"
+import { authMiddleware } from "../middleware/authMiddleware"
+import {
+  countUnread,
+  getConversationAccess,
+  isChannelOpen,
+  markConversationRead,
+  MAX_MESSAGE_LENGTH,
+  openConversation,
+  sendMessage,
+} from "../services/messagingService"
+import { pageArgs, parsePageParams, toPage } from "../utils/pagination"
+import { publicUserSelect } from "../utils/projections"
+import logger from "../../config/logger"
+
+const router = express.Router()
+const prisma = new PrismaClient()
+
+// Every messaging route requires a signed-in participant
+router.use(authMiddleware)
+
+const conversationInclude = {
+  nft: {
+    select: {
+      id: true,
+      tokenId: true,
+      riff: { select: { id: true, title: true, coverImageUrl: true } },
+    },
+  },
+  artist: { select: publicUserSelect },
+  holder: { select: publicUserSelect },
+}
+
+function findConversation(id: string) {
+  return prisma.conversation.findUnique({
+    where: { id },
+    include: { nft: true },
+  })
+}
+
+// List the current user's conversations, newest first
+router.get("/conversations", async (req, res) => {
+  try {
+    const userId = req.user.id
+    const page = parsePageParams(req.query)
+    logger.info(`Fetching conversations for user ${userId}`, page)
+
+    // Former holders no longer see threads of NFTs they sold
+    const conversations = await prisma.conversation.findMany({
+      where: {
+        OR: [
+          { artistId: userId },
+          { holderId: userId, nft: { ownerId: userId, status: "confirmed", unlockPrivateMessages: true } },
+        ],
+      },
+      // Ordered by an immutable key so cursors stay valid while new messages arrive
+      orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+      ...pageArgs(page),
+      include: {
+        ...conversationInclude,
+        nft: {
+          select: { ...conversationInclude.nft.select, ownerId: true, status: true, unlockPrivateMessages: true },
+        },
+        messages: { orderBy: [{ createdAt: "desc" }, { id: "desc" }], take: 1 },
+      },
+    })
+
+    const { items, nextCursor } = toPage(conversations, page)
+    const unread = await countUnread(items.map((conversation) => conversation.id), userId)
+
+    res.json({
+      items: items.map(({ messages, nft, ...conversation }) => {
+        const { ownerId, status, unlockPrivateMessages, ...nftSummary } = nft
+        return {
+          ...conversation,
+          nft: nftSummary,
+          canSend: isChannelOpen({ ownerId, status, unlockPrivateMessages }, conversation.holderId),
+          lastMessage: messages[0] ?? null,
+          unreadCount: unread.get(conversation.id) ?? 0,
+        }
+      }),
+      nextCursor,
+    })
+  } catch (error) {
+    logger.error(`Error fetching conversations: ${error}`, { userId: req.user?.id })
+    res.status(500).json({ message: "Server error" })
+  }
+})
+
+// Open (or reopen) the conversation between an NFT's artist and its current holder
+router.post("/conversations", async (req, res) => {
+  try {
+    const userId = req.user.id
+    const { nftId } = req.body
+    logger.info(`Opening conversation for NFT: ${nftId}`, { userId })
+
+    if (typeof nftId !== "string" || nftId === "") {
+      return res.status(400).json({ message: "nftId is required" })
+    }
+
+    const nft = await prisma.nFT.findUnique({
+      where: { id: nftId },
+      include: { riff: { select: { userId: true } } },
+    })
+
+    if (!nft) {
+      logger.warn(`NFT not found: ${nftId}`)
+      return res.status(404).json({ message: "NFT not found" })
+    }
+
+    const artistId = nft.riff.userId
+
+    if (userId !== artistId && userId !== nft.ownerId) {
+      logger.warn(`Unauthorized conversation request for NFT: ${nftId}`, {
+        requestUserId: userId,
+        ownerUserId: nft.ownerId,
+      })
+      return res.status(403).json({ message: "Only the artist and the holder of this NFT can message each other" })
+    }
+
+    if (!nft.unlockPrivateMessages || nft.status !== "confirmed") {
+      return res.status(400).json({ message: "Private messages are not unlocked for this NFT" })
+    }
+
+    if (nft.ownerId === artistId) {
+      return res.status(400).json({ message: "The artist still holds this NFT" })
+    }
+
+    const { conversation, created } = await openConversation(nft, artistId)
+
+    const result = await prisma.conversation.findUnique({
+      where: { id: conversation.id },
+      include: conversationInclude,
+    })
+
+    res.status(created ? 201 : 200).json(result)
+  } catch (error) {
+    logger.error(`Error opening conversation: ${error}`, { userId: req.user?.id, nftId: req.body?.nftId })
+    res.status(500).json({ message: "Server error" })
+  }
+})
+
+// Get the messages of a conversation, newest first
+router.get("/conversations/:id/messages", async (req, res) => {
+  try {
+    const { id } = req.params
+    const userId = req.user.id
+    const page = parsePageParams(req.query)
+    logger.info(`Fetching messages of conversation: ${id}`, { userId, ...page })
+
+    const conversation = await findConversation(id)
+
+    if (!conversation) {
+      logger.warn(`Conversation not found: ${id}`)
+      return res.status(404).json({ message: "Conversation not found" })
+    }
+
+    const access = getConversationAccess(conversation, userId)
+
+    if (!access) {
+      logger.warn(`Unauthorized conversation access: ${id}`, {
+        requestUserId: userId,
+        holderUserId: conversation.holderId,
+      })
+      return res.status(403).json({ message: "Not authorized to view this conversation" })
+    }
+
+    const messages = await prisma.message.findMany({
+      where: { conversationId: id },
+      orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+      ...pageArgs(page),
+    })
+
+    const { items, nextCursor } = toPage(messages, page)
+
+    logger.debug(`Found ${items.length} messages`, { conversationId: id, nextCursor })
+    res.json({ items, nextCursor, canSend: access.canSend })
+  } catch (error) {
+    logger.error(`Error fetching messages: ${error}`, { id: req.params.id, userId: req.user?.id })
+    res.status(500).json({ message: "Server error" })
+  }
+})
+
+// Send a message
+router.post("/conversations/:id/messages", async (req, res) => {
+  try {
+    const { id } = req.params
+    const userId = req.user.id
+    const { body } = req.body
+    logger.info(`Sending message to conversation: ${id}`, { userId })
+
+    if (typeof body !== "string" || body.trim() === "") {
+      return res.status(400).json({ message: "body is required" })
+    }
+
+    if (body.length > MAX_MESSAGE_LENGTH) {
+      return res.status(400).json({ message: `body must be at most ${MAX_MESSAGE_LENGTH} characters` })
+    }
+
+    const conversation = await findConversation(id)
+
+    if (!conversation) {
+      logger.warn(`Conversation not found: ${id}`)
+      return res.status(404).json({ message: "Conversation not found" })
+    }
+
+    const access = getConversationAccess(conversation, userId)
+
+    if (!access) {
+      logger.warn(`Unauthorized message attempt: ${id}`, {
+        requestUserId: userId,
+        holderUserId: conversation.holderId,
+      })
+      return res.status(403).json({ message: "Not authorized to message in this conversation" })
+    }
+
+    if (!access.canSend) {
+      logger.warn(`Message to closed conversation: ${id}`, { userId, ownerUserId: conversation.nft.ownerId })
+      return res.status(403).json({ message: "This conversation is closed to new messages" })
+    }
+
+    const message = await sendMessage(id, userId, body)
+
+    logger.info(`Message sent: ${message.id}`, { conversationId: id, role: access.role })
+    res.status(201).json(message)
+  } catch (error) {
+    logger.error(`Error sending message: ${error}`, { id: req.params.id, userId: req.user?.id })
+    res.status(500).json({ message: "Server error" })
+  }
+})
+
+// Mark the messages received in a conversation as read
+router.post("/conversations/:id/read", async (req, res) => {
+  try {
+    const { id } = req.params
+    const userId = req.user.id
+    logger.info(`Marking conversation as read: ${id}`, { userId })
+
+    const conversation = await findConversation(id)
+
+    if (!conversation) {
+      logger.warn(`Conversation not found: ${id}`)
+      return res.status(404).json({ message: "Conversation not found" })
+    }
+
+    if (!getConversationAccess(conversation, userId)) {
+      logger.warn(`Unauthorized read receipt: ${id}`, {
+        requestUserId: userId,
+        holderUserId: conversation.holderId,
+      })
+      return res.status(403).json({ message: "Not authorized to view this conversation" })
+    }
+
+    const marked = await markConversationRead(id, userId)
+
+    res.json({ marked })
+  } catch (error) {
+    logger.error(`Error marking conversation as read: ${error}`, { id: req.params.id, userId: req.user?.id })
+    res.status(500).json({ message: "Server error" })
+  }
+})
+
+export const messageRoutes = router
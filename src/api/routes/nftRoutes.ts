@@ -1,36 +1,100 @@
 import express from "express"
 import { PrismaClient } from "@prisma/client"
 import { authMiddleware } from "../middleware/authMiddleware"
-import { mintNFT } from "../services/blockchainService"
+import { transferNFT } from "../services/blockchainService"
+import { distributeRoyalties } from "../services/royaltyService"
+import {
+  InsufficientBalanceError,
+  LEDGER_CURRENCY,
+  postTransaction,
+  postTransfer,
+  SYSTEM_ACCOUNTS,
+  userAccountCode,
+} from "../services/ledgerService"
+import { isFullAudioAccess } from "../services/audioAccessService"
+import { getTokenMetadata } from "../services/nftMetadataService"
+import { mintEvents, startMint, toMintStatus, type MintStatusEvent } from "../services/mintingService"
+import { notify } from "../services/notificationService"
+import { pageArgs, parsePageParams, toPage } from "../utils/pagination"
+import { publicUserSelect } from "../utils/projections"
 import logger from "../../config/logger"
 
 const router = express.Router()
 const prisma = new PrismaClient()
 
+// Sales settle on the ledger, so NFTs can only be priced in its currency (omitted keeps the current one)
+function isSupportedCurrency(currency: unknown) {
+  return currency === undefined || currency === null || currency === "" || currency === LEDGER_CURRENCY
+}
+
 // Get all NFTs
 router.get("/", async (req, res) => {
   try {
-    logger.info("Fetching all NFTs")
+    const { listed } = req.query
+    const page = parsePageParams(req.query)
+    logger.info("Fetching all NFTs", { listed, ...page })
+
+    // Build filter conditions
+    const where: any = {}
+
+    if (listed === "true") {
+      where.isListed = true
+    }
 
     const nfts = await prisma.nFT.findMany({
+      where,
+      orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+      ...pageArgs(page),
       include: {
         riff: {
-          include: {
-            user: true,
+          select: {
+            id: true,
+            title: true,
+            coverImageUrl: true,
+            genre: true,
+            mood: true,
+            instrument: true,
+            duration: true,
+            user: { select: publicUserSelect },
           },
         },
-        owner: true,
+        owner: { select: publicUserSelect },
+        _count: { select: { sales: true } },
       },
     })
 
-    logger.debug(`Found ${nfts.length} NFTs`)
-    res.json(nfts)
+    const { items, nextCursor } = toPage(nfts, page)
+
+    logger.debug(`Found ${items.length} NFTs`, { nextCursor })
+    res.json({ items, nextCursor })
   } catch (error) {
     logger.error(`Error fetching NFTs: ${error}`)
     res.status(500).json({ message: "Server error" })
   }
 })
 
+// Get ERC-721 token metadata (public); this is the token URI set at mint time
+router.get("/metadata/:tokenId", async (req, res) => {
+  try {
+    const { tokenId } = req.params
+    logger.debug(`Fetching token metadata: ${tokenId}`)
+
+    const metadata = await getTokenMetadata(tokenId)
+
+    if (!metadata) {
+      logger.warn(`Token metadata not found: ${tokenId}`)
+      return res.status(404).json({ message: "Token not found" })
+    }
+
+    // Marketplaces poll this; edits to the riff or NFT show up after the cache expires
+    res.setHeader("Cache-Control", "public, max-age=300")
+    res.json(metadata)
+  } catch (error) {
+    logger.error(`Error fetching token metadata: ${error}`, { tokenId: req.params.tokenId })
+    res.status(500).json({ message: "Server error" })
+  }
+})
+
 // Get a single NFT by ID
 router.get("/:id", async (req, res) => {
   try {
@@ -42,10 +106,10 @@ router.get("/:id", async (req, res) => {
       include: {
         riff: {
           include: {
-            user: true,
+            user: { select: publicUserSelect },
           },
         },
-        owner: true,
+        owner: { select: publicUserSelect },
       },
     })
 
@@ -81,6 +145,7 @@ router.post("/mint", authMiddleware, async (req, res) => {
       unlockRemixRights,
       unlockPrivateMessages,
       unlockBackstageContent,
+      fullAudioAccess,
     } = req.body
 
     logger.info(`Minting NFT for riff: ${riffId}`, { userId })
@@ -92,6 +157,15 @@ router.post("/mint", authMiddleware, async (req, res) => {
       customRoyaltyShare,
     })
 
+    if (fullAudioAccess !== undefined && !isFullAudioAccess(fullAudioAccess)) {
+      return res.status(400).json({ message: "fullAudioAccess must be one of holder, stakers, everyone" })
+    }
+
+    if (!isSupportedCurrency(currency)) {
+      logger.warn(`Unsupported currency for NFT minting: ${riffId}`, { currency })
+      return res.status(400).json({ message: `Currency must be ${LEDGER_CURRENCY}` })
+    }
+
     // Check if riff exists and belongs to user
     const riff = await prisma.riff.findUnique({
       where: { id: riffId },
@@ -116,29 +190,24 @@ router.post("/mint", authMiddleware, async (req, res) => {
     })
 
     if (existingNFT) {
-      logger.warn(`Riff already minted as NFT: ${riffId}`, { existingNftId: existingNFT.id })
-      return res.status(400).json({ message: "Riff is already minted as an NFT" })
+      logger.warn(`Riff already minted as NFT: ${riffId}`, {
+        existingNftId: existingNFT.id,
+        status: existingNFT.status,
+      })
+      const message =
+        existingNFT.status === "failed"
+          ? "Minting previously failed for this riff, retry it instead"
+          : "Riff is already minted as an NFT"
+      return res.status(400).json({ message, nftId: existingNFT.id, status: existingNFT.status })
     }
 
-    // Mint the NFT on the blockchain
-    logger.info(`Initiating blockchain minting for riff: ${riffId}`)
-    const { tokenId, contractAddress } = await mintNFT(riff.audioUrl, {
-      title: riff.title,
-      description: riff.description || "",
-      coverImage: riff.coverImageUrl || "",
-      royaltyPercentage: Number.parseFloat(royaltyPercentage),
-    })
-
-    logger.debug(`Blockchain minting successful`, { tokenId, contractAddress })
-
-    // Create NFT record in database
+    // Create the pending NFT record first so the chain and database can never disagree silently
     const nft = await prisma.nFT.create({
       data: {
-        tokenId,
-        contractAddress,
+        status: "pending",
         riffId,
         price: Number.parseFloat(price),
-        currency,
+        currency: currency || undefined,
         royaltyPercentage: Number.parseFloat(royaltyPercentage),
         enableStaking: enableStaking === "true",
         customRoyaltyShare: Number.parseFloat(customRoyaltyShare),
@@ -146,12 +215,16 @@ router.post("/mint", authMiddleware, async (req, res) => {
         unlockRemixRights: unlockRemixRights === "true",
         unlockPrivateMessages: unlockPrivateMessages === "true",
         unlockBackstageContent: unlockBackstageContent === "true",
+        fullAudioAccess,
         ownerId: userId,
       },
     })
 
-    logger.info(`NFT created successfully: ${nft.id}`, { tokenId, riffId })
-    res.status(201).json(nft)
+    // Submit and confirm the mint transaction in the background
+    startMint(nft.id)
+
+    logger.info(`NFT mint queued: ${nft.id}`, { riffId })
+    res.status(202).json(nft)
   } catch (error) {
     logger.error(`Error minting NFT: ${error}`, {
       userId: req.user?.id,
@@ -161,6 +234,474 @@ router.post("/mint", authMiddleware, async (req, res) => {
   }
 })
 
+// Poll the mint status of an NFT
+router.get("/:id/status", async (req, res) => {
+  try {
+    const { id } = req.params
+    logger.info(`Fetching mint status for NFT: ${id}`)
+
+    const nft = await prisma.nFT.findUnique({
+      where: { id },
+    })
+
+    if (!nft) {
+      logger.warn(`NFT not found: ${id}`)
+      return res.status(404).json({ message: "NFT not found" })
+    }
+
+    res.json(toMintStatus(nft))
+  } catch (error) {
+    logger.error(`Error fetching mint status: ${error}`, { id: req.params.id })
+    res.status(500).json({ message: "Server error" })
+  }
+})
+
+// Subscribe to mint status changes of an NFT (server-sent events)
+router.get("/:id/status/stream", async (req, res) => {
+  try {
+    const { id } = req.params
+    logger.info(`Subscribing to mint status for NFT: ${id}`)
+
+    const nft = await prisma.nFT.findUnique({
+      where: { id },
+    })
+
+    if (!nft) {
+      logger.warn(`NFT not found: ${id}`)
+      return res.status(404).json({ message: "NFT not found" })
+    }
+
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    })
+
+    const send = (event: MintStatusEvent) => {
+      res.write(`event: status\ndata: ${JSON.stringify(event)}\n\n`)
+      if (event.status !== "pending") {
+        cleanup()
+        res.end()
+      }
+    }
+
+    const onStatus = (event: MintStatusEvent) => {
+      if (event.id === id) send(event)
+    }
+
+    const cleanup = () => {
+      mintEvents.off("status", onStatus)
+    }
+
+    mintEvents.on("status", onStatus)
+    req.on("close", cleanup)
+
+    // Send the current state immediately; closes at once if the mint already settled
+    send(toMintStatus(nft))
+  } catch (error) {
+    logger.error(`Error streaming mint status: ${error}`, { id: req.params.id })
+    if (!res.headersSent) {
+      res.status(500).json({ message: "Server error" })
+    }
+  }
+})
+
+// Retry a failed mint
+router.post("/:id/retry-mint", authMiddleware, async (req, res) => {
+  try {
+    const { id } = req.params
+    const userId = req.user.id
+    logger.info(`Retrying mint for NFT: ${id}`, { userId })
+
+    const nft = await prisma.nFT.findUnique({
+      where: { id },
+    })
+
+    if (!nft) {
+      logger.warn(`NFT not found for mint retry: ${id}`)
+      return res.status(404).json({ message: "NFT not found" })
+    }
+
+    if (nft.ownerId !== userId) {
+      logger.warn(`Unauthorized mint retry attempt: ${id}`, {
+        requestUserId: userId,
+        ownerUserId: nft.ownerId,
+      })
+      return res.status(403).json({ message: "Not authorized to retry this mint" })
+    }
+
+    if (nft.status !== "failed") {
+      logger.warn(`Mint retry on NFT that has not failed: ${id}`, { status: nft.status })
+      return res.status(400).json({ message: `Mint is ${nft.status}, only failed mints can be retried` })
+    }
+
+    const pending = await prisma.nFT.update({
+      where: { id },
+      data: { status: "pending", mintError: null },
+    })
+
+    // Reuses the previous transaction if it actually succeeded on-chain
+    startMint(id)
+
+    logger.info(`NFT mint retry queued: ${id}`)
+    res.status(202).json(toMintStatus(pending))
+  } catch (error) {
+    logger.error(`Error retrying mint: ${error}`, { id: req.params.id, userId: req.user?.id })
+    res.status(500).json({ message: "Server error" })
+  }
+})
+
+// List an NFT for sale
+router.post("/:id/list", authMiddleware, async (req, res) => {
+  try {
+    const { id } = req.params
+    const userId = req.user.id
+    const { price, currency } = req.body
+    logger.info(`Listing NFT for sale: ${id}`, { userId, price, currency })
+
+    const nft = await prisma.nFT.findUnique({
+      where: { id },
+    })
+
+    if (!nft) {
+      logger.warn(`NFT not found for listing: ${id}`)
+      return res.status(404).json({ message: "NFT not found" })
+    }
+
+    if (nft.ownerId !== userId) {
+      logger.warn(`Unauthorized NFT listing attempt: ${id}`, {
+        requestUserId: userId,
+        ownerUserId: nft.ownerId,
+      })
+      return res.status(403).json({ message: "Not authorized to list this NFT" })
+    }
+
+    if (nft.status !== "confirmed") {
+      logger.warn(`Attempted to list unconfirmed NFT: ${id}`, { status: nft.status })
+      return res.status(400).json({ message: "NFT mint is not confirmed yet" })
+    }
+
+    const listingPrice = price !== undefined ? Number.parseFloat(price) : nft.price
+    if (!Number.isFinite(listingPrice) || listingPrice <= 0) {
+      logger.warn(`Invalid listing price for NFT: ${id}`, { price })
+      return res.status(400).json({ message: "Price must be a positive number" })
+    }
+
+    const listingCurrency = currency || nft.currency
+    if (listingCurrency !== LEDGER_CURRENCY) {
+      logger.warn(`Unsupported listing currency for NFT: ${id}`, { currency: listingCurrency })
+      return res.status(400).json({ message: `Currency must be ${LEDGER_CURRENCY}` })
+    }
+
+    const updatedNFT = await prisma.nFT.update({
+      where: { id },
+      data: {
+        isListed: true,
+        listedAt: new Date(),
+        price: listingPrice,
+        currency: listingCurrency,
+      },
+    })
+
+    logger.info(`NFT listed successfully: ${id}`, { price: updatedNFT.price, currency: updatedNFT.currency })
+    res.json(updatedNFT)
+  } catch (error) {
+    logger.error(`Error listing NFT: ${error}`, { id: req.params.id, userId: req.user?.id })
+    res.status(500).json({ message: "Server error" })
+  }
+})
+
+// Remove an NFT from sale
+router.post("/:id/delist", authMiddleware, async (req, res) => {
+  try {
+    const { id } = req.params
+    const userId = req.user.id
+    logger.info(`Delisting NFT: ${id}`, { userId })
+
+    const nft = await prisma.nFT.findUnique({
+      where: { id },
+    })
+
+    if (!nft) {
+      logger.warn(`NFT not found for delisting: ${id}`)
+      return res.status(404).json({ message: "NFT not found" })
+    }
+
+    if (nft.ownerId !== userId) {
+      logger.warn(`Unauthorized NFT delisting attempt: ${id}`, {
+        requestUserId: userId,
+        ownerUserId: nft.ownerId,
+      })
+      return res.status(403).json({ message: "Not authorized to delist this NFT" })
+    }
+
+    const updatedNFT = await prisma.nFT.update({
+      where: { id },
+      data: {
+        isListed: false,
+        listedAt: null,
+      },
+    })
+
+    logger.info(`NFT delisted successfully: ${id}`)
+    res.json(updatedNFT)
+  } catch (error) {
+    logger.error(`Error delisting NFT: ${error}`, { id: req.params.id, userId: req.user?.id })
+    res.status(500).json({ message: "Server error" })
+  }
+})
+
+// Buy a listed NFT
+router.post("/:id/buy", authMiddleware, async (req, res) => {
+  try {
+    const { id } = req.params
+    const buyerId = req.user.id
+    logger.info(`User ${buyerId} buying NFT: ${id}`)
+
+    const nft = await prisma.nFT.findUnique({
+      where: { id },
+      include: { riff: { select: { title: true } } },
+    })
+
+    if (!nft) {
+      logger.warn(`NFT not found for purchase: ${id}`)
+      return res.status(404).json({ message: "NFT not found" })
+    }
+
+    if (!nft.isListed || nft.status !== "confirmed" || !nft.tokenId) {
+      logger.warn(`Attempted to buy unlisted NFT: ${id}`, { isListed: nft.isListed, status: nft.status })
+      return res.status(400).json({ message: "NFT is not for sale" })
+    }
+
+    if (nft.ownerId === buyerId) {
+      logger.warn(`User attempted to buy own NFT: ${id}`, { buyerId })
+      return res.status(400).json({ message: "You already own this NFT" })
+    }
+
+    // Only ledger-priced sales can collect the buyer's payment; anything else would transfer the token for free
+    if (nft.currency !== LEDGER_CURRENCY) {
+      logger.warn(`Attempted to buy NFT priced in an unsupported currency: ${id}`, { currency: nft.currency })
+      return res.status(400).json({ message: `NFT is priced in ${nft.currency}, which cannot be settled` })
+    }
+
+    const sellerId = nft.ownerId
+    const [sellerWallet, buyerWallet] = await Promise.all([
+      prisma.wallet.findFirst({ where: { userId: sellerId }, orderBy: { createdAt: "asc" } }),
+      prisma.wallet.findFirst({ where: { userId: buyerId }, orderBy: { createdAt: "asc" } }),
+    ])
+
+    if (!sellerWallet || !buyerWallet) {
+      logger.warn(`Missing wallet for NFT purchase: ${id}`, {
+        hasSellerWallet: !!sellerWallet,
+        hasBuyerWallet: !!buyerWallet,
+      })
+      return res.status(400).json({ message: "Both buyer and seller need a connected wallet" })
+    }
+
+    // Reserve the listing and take the buyer's payment into escrow in one step, before touching the chain,
+    // so concurrent buyers cannot both win and a buyer who cannot pay never receives the token
+    const reserved = await prisma.$transaction(async (tx) => {
+      const reserved = await tx.nFT.updateMany({
+        where: { id, ownerId: sellerId, isListed: true },
+        data: { isListed: false },
+      })
+
+      if (reserved.count > 0) {
+        await postTransfer(tx, "sale_escrow", userAccountCode(buyerId), SYSTEM_ACCOUNTS.escrow, nft.price, id)
+      }
+
+      return reserved.count > 0
+    })
+
+    if (!reserved) {
+      logger.warn(`NFT listing no longer available: ${id}`)
+      return res.status(409).json({ message: "NFT is no longer for sale" })
+    }
+
+    let transfer
+    try {
+      transfer = await transferNFT(nft.tokenId, sellerWallet.address, buyerWallet.address)
+    } catch (error) {
+      // Refund the buyer and put the listing back so neither side is left short by a failed transfer
+      await prisma.$transaction(async (tx) => {
+        await postTransfer(tx, "sale_refund", SYSTEM_ACCOUNTS.escrow, userAccountCode(buyerId), nft.price, id)
+
+        await tx.nFT.update({
+          where: { id },
+          data: { isListed: true },
+        })
+      })
+      throw error
+    }
+
+    // The token has moved on-chain; a failure from here on leaves the payment in escrow for reconciliation
+    const { updatedNFT, sale, royalties } = await prisma.$transaction(async (tx) => {
+      const updatedNFT = await tx.nFT.update({
+        where: { id },
+        data: {
+          ownerId: buyerId,
+          listedAt: null,
+        },
+      })
+
+      const sale = await tx.sale.create({
+        data: {
+          nftId: id,
+          sellerId,
+          buyerId,
+          price: nft.price,
+          currency: nft.currency,
+          transactionHash: transfer.transactionHash,
+        },
+      })
+
+      const royalties = await distributeRoyalties(tx, {
+        nftId: id,
+        source: "sale",
+        sourceId: sale.id,
+        grossAmount: sale.price,
+        currency: sale.currency,
+      })
+
+      // Release the escrowed price: the seller keeps it minus the royalty, which goes to the payees
+      await postTransaction(tx, {
+        type: "sale",
+        reference: sale.id,
+        legs: [
+          { accountCode: SYSTEM_ACCOUNTS.escrow, amount: -sale.price },
+          { accountCode: userAccountCode(sellerId), amount: sale.price - royalties.royaltyAmount },
+          ...[...royalties.payouts, ...royalties.upstreamPayouts].map((payout) => ({
+            accountCode: userAccountCode(payout.recipientId),
+            amount: payout.amount,
+          })),
+        ],
+      })
+
+      return { updatedNFT, sale, royalties }
+    }).catch((error) => {
+      logger.error(`NFT transferred but sale settlement failed: ${id}`, {
+        sellerId,
+        buyerId,
+        price: nft.price,
+        txHash: transfer.transactionHash,
+      })
+      throw error
+    })
+
+    logger.info(`NFT sold successfully: ${id}`, {
+      saleId: sale.id,
+      sellerId,
+      buyerId,
+      price: sale.price,
+      txHash: transfer.transactionHash,
+    })
+
+    notify({
+      userId: sellerId,
+      type: "nftSold",
+      title: `"${nft.riff.title}" sold`,
+      body: `${req.user.name || "A collector"} bought "${nft.riff.title}" for ${sale.price} ${sale.currency}`,
+      data: { nftId: id, saleId: sale.id },
+    })
+
+    res.status(201).json({ nft: updatedNFT, sale, royalties })
+  } catch (error) {
+    if (error instanceof InsufficientBalanceError) {
+      logger.warn(`NFT purchase rejected: insufficient balance`, { id: req.params.id, userId: req.user?.id })
+      return res.status(400).json({ message: "Insufficient balance" })
+    }
+
+    logger.error(`Error buying NFT: ${error}`, { id: req.params.id, userId: req.user?.id })
+    res.status(500).json({ message: "Server error" })
+  }
+})
+
+// Get provenance and sales history of an NFT
+router.get("/:id/history", async (req, res) => {
+  try {
+    const { id } = req.params
+    logger.info(`Fetching sales history for NFT: ${id}`)
+
+    const nft = await prisma.nFT.findUnique({
+      where: { id },
+      include: {
+        riff: {
+          select: { id: true, title: true, userId: true },
+        },
+      },
+    })
+
+    if (!nft) {
+      logger.warn(`NFT not found: ${id}`)
+      return res.status(404).json({ message: "NFT not found" })
+    }
+
+    const sales = await prisma.sale.findMany({
+      where: { nftId: id },
+      orderBy: { createdAt: "asc" },
+      include: {
+        seller: { select: publicUserSelect },
+        buyer: { select: publicUserSelect },
+      },
+    })
+
+    // Provenance starts with the mint to the artist, followed by every sale
+    const provenance = [
+      {
+        event: "mint",
+        toUserId: nft.riff.userId,
+        transactionHash: nft.mintTxHash,
+        timestamp: nft.createdAt,
+      },
+      ...sales.map((sale) => ({
+        event: "sale",
+        fromUserId: sale.sellerId,
+        toUserId: sale.buyerId,
+        price: sale.price,
+        currency: sale.currency,
+        transactionHash: sale.transactionHash,
+        timestamp: sale.createdAt,
+      })),
+    ]
+
+    logger.debug(`Found ${sales.length} sales for NFT: ${id}`)
+    res.json({
+      nftId: id,
+      tokenId: nft.tokenId,
+      currentOwnerId: nft.ownerId,
+      provenance,
+      sales,
+    })
+  } catch (error) {
+    logger.error(`Error fetching NFT history: ${error}`, { id: req.params.id })
+    res.status(500).json({ message: "Server error" })
+  }
+})
+
+// Get royalty distributions of an NFT with their payout line items
+router.get("/:id/royalties", async (req, res) => {
+  try {
+    const { id } = req.params
+    logger.info(`Fetching royalty distributions for NFT: ${id}`)
+
+    const distributions = await prisma.royaltyDistribution.findMany({
+      where: { nftId: id },
+      orderBy: { createdAt: "desc" },
+      include: {
+        payouts: true,
+      },
+    })
+
+    const totalRoyalties = distributions.reduce((sum, distribution) => sum + distribution.royaltyAmount, 0)
+
+    logger.debug(`Found ${distributions.length} royalty distributions for NFT: ${id}`)
+    res.json({ totalRoyalties, distributions })
+  } catch (error) {
+    logger.error(`Error fetching royalty distributions: ${error}`, { id: req.params.id })
+    res.status(500).json({ message: "Server error" })
+  }
+})
+
 // Update NFT settings
 router.put("/:id", authMiddleware, async (req, res) => {
   try {
@@ -195,8 +736,18 @@ router.put("/:id", authMiddleware, async (req, res) => {
       unlockRemixRights,
       unlockPrivateMessages,
       unlockBackstageContent,
+      fullAudioAccess,
     } = req.body
 
+    if (fullAudioAccess !== undefined && !isFullAudioAccess(fullAudioAccess)) {
+      return res.status(400).json({ message: "fullAudioAccess must be one of holder, stakers, everyone" })
+    }
+
+    if (!isSupportedCurrency(currency)) {
+      logger.warn(`Unsupported currency for NFT update: ${id}`, { currency })
+      return res.status(400).json({ message: `Currency must be ${LEDGER_CURRENCY}` })
+    }
+
     logger.debug("NFT update data", {
       id,
       price,
@@ -209,13 +760,14 @@ router.put("/:id", authMiddleware, async (req, res) => {
       where: { id },
       data: {
         price: price ? Number.parseFloat(price) : undefined,
-        currency,
+        currency: currency || undefined,
         enableStaking: enableStaking === "true",
         customRoyaltyShare: customRoyaltyShare ? Number.parseFloat(customRoyaltyShare) : undefined,
         unlockSourceFiles: unlockSourceFiles === "true",
         unlockRemixRights: unlockRemixRights === "true",
         unlockPrivateMessages: unlockPrivateMessages === "true",
         unlockBackstageContent: unlockBackstageContent === "true",
+        fullAudioAccess,
       },
     })
 
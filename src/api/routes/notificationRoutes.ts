@@ -0,0 +1,173 @@
+import express from "express"
+import { PrismaClient } from "@prisma/client"
+import { authMiddleware } from "../middleware/authMiddleware"
+import {
+  getNotificationPreferences,
+  isNotificationType,
+  NOTIFICATION_TYPES,
+  type NotificationSettings,
+  type NotificationType,
+  updateNotificationPreferences,
+} from "../services/notificationService"
+import { pageArgs, parsePageParams, toPage } from "../utils/pagination"
+import logger from "../../config/logger"
+
+const router = express.Router()
+const prisma = new PrismaClient()
+
+// Every notification route acts on the signed-in user's own inbox
+router.use(authMiddleware)
+
+// List notifications, newest first (`?unread=true` for unread only)
+router.get("/", async (req, res) => {
+  try {
+    const userId = req.user.id
+    const page = parsePageParams(req.query)
+    const unreadOnly = req.query.unread === "true"
+    logger.info(`Fetching notifications for user ${userId}`, { unreadOnly, ...page })
+
+    const notifications = await prisma.notification.findMany({
+      where: { userId, ...(unreadOnly ? { readAt: null } : {}) },
+      orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+      ...pageArgs(page),
+    })
+
+    const { items, nextCursor } = toPage(notifications, page)
+
+    logger.debug(`Found ${items.length} notifications for user ${userId}`, { nextCursor })
+    res.json({ items, nextCursor })
+  } catch (error) {
+    logger.error(`Error fetching notifications: ${error}`, { userId: req.user?.id })
+    res.status(500).json({ message: "Server error" })
+  }
+})
+
+// Count unread notifications
+router.get("/unread-count", async (req, res) => {
+  try {
+    const userId = req.user.id
+
+    const count = await prisma.notification.count({
+      where: { userId, readAt: null },
+    })
+
+    res.json({ count })
+  } catch (error) {
+    logger.error(`Error counting unread notifications: ${error}`, { userId: req.user?.id })
+    res.status(500).json({ message: "Server error" })
+  }
+})
+
+// Mark every notification as read
+router.post("/read-all", async (req, res) => {
+  try {
+    const userId = req.user.id
+    logger.info(`Marking all notifications as read for user ${userId}`)
+
+    const { count } = await prisma.notification.updateMany({
+      where: { userId, readAt: null },
+      data: { readAt: new Date() },
+    })
+
+    res.json({ marked: count })
+  } catch (error) {
+    logger.error(`Error marking notifications as read: ${error}`, { userId: req.user?.id })
+    res.status(500).json({ message: "Server error" })
+  }
+})
+
+// Get the per-type notification preferences
+router.get("/preferences", async (req, res) => {
+  try {
+    const userId = req.user.id
+    logger.info(`Fetching notification preferences for user ${userId}`)
+
+    res.json(await getNotificationPreferences(userId))
+  } catch (error) {
+    logger.error(`Error fetching notification preferences: ${error}`, { userId: req.user?.id })
+    res.status(500).json({ message: "Server error" })
+  }
+})
+
+// Update notification preferences, e.g. `{ "tipReceived": { "email": false } }`
+router.put("/preferences", async (req, res) => {
+  try {
+    const userId = req.user.id
+    const body = req.body ?? {}
+    logger.info(`Updating notification preferences for user ${userId}`, { types: Object.keys(body) })
+
+    if (typeof body !== "object" || Array.isArray(body)) {
+      return res.status(400).json({ message: "Preferences must be an object keyed by notification type" })
+    }
+
+    const updates: Partial<Record<NotificationType, Partial<NotificationSettings>>> = {}
+
+    for (const [type, settings] of Object.entries(body)) {
+      if (!isNotificationType(type)) {
+        return res.status(400).json({ message: `Notification type must be one of ${NOTIFICATION_TYPES.join(", ")}` })
+      }
+
+      if (typeof settings !== "object" || settings === null) {
+        return res.status(400).json({ message: `Settings for ${type} must be an object` })
+      }
+
+      const { inApp, email } = settings as Record<string, unknown>
+
+      if ((inApp !== undefined && typeof inApp !== "boolean") || (email !== undefined && typeof email !== "boolean")) {
+        return res.status(400).json({ message: `inApp and email for ${type} must be booleans` })
+      }
+
+      updates[type] = {
+        ...(inApp !== undefined ? { inApp } : {}),
+        ...(email !== undefined ? { email } : {}),
+      }
+    }
+
+    const preferences = await updateNotificationPreferences(userId, updates)
+
+    logger.info(`Notification preferences updated for user ${userId}`)
+    res.json(preferences)
+  } catch (error) {
+    logger.error(`Error updating notification preferences: ${error}`, { userId: req.user?.id })
+    res.status(500).json({ message: "Server error" })
+  }
+})
+
+// Mark a notification as read
+router.post("/:id/read", async (req, res) => {
+  try {
+    const { id } = req.params
+    const userId = req.user.id
+
+    const notification = await prisma.notification.findUnique({
+      where: { id },
+    })
+
+    if (!notification) {
+      logger.warn(`Notification not found: ${id}`)
+      return res.status(404).json({ message: "Notification not found" })
+    }
+
+    if (notification.userId !== userId) {
+      logger.warn(`Unauthorized notification access: ${id}`, {
+        requestUserId: userId,
+        ownerUserId: notification.userId,
+      })
+      return res.status(403).json({ message: "Not authorized to modify this notification" })
+    }
+
+    const updated = notification.readAt
+      ? notification
+      : await prisma.notification.update({
+          where: { id },
+          data: { readAt: new Date() },
+        })
+
+    res.json(updated)
+  } catch (error) {
+    logger.error(`Error marking notification as read: ${error}`, { id: req.params.id, userId: req.user?.id })
+    res.status(500).json({ message: "Server error" })
+  }
+})
+
+export const notificationRoutes = router
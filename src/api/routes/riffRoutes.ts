@@ -4,7 +4,38 @@ import { authMiddleware } from "../middleware/authMiddleware"
 import multer from "multer"
 import path from "path"
 import fs from "fs"
-import { uploadToS3 } from "../services/storageService"
+import { getStorage, safeKeyFilename } from "../services/storageService"
+import type { StoredObject } from "../services/storage/storageProvider"
+import { withRiffStats } from "../services/riffStatsService"
+import { searchRiffs } from "../services/searchService"
+import {
+  analyzeAudio,
+  AudioAnalysisError,
+  createPreviewClip,
+  type AudioAnalysis,
+} from "../services/audioAnalysisService"
+import { canAccessFullAudio, signFullAudioUrl } from "../services/audioAccessService"
+import {
+  createUpload,
+  readObject,
+  rejectUpload,
+  validateUploadFile,
+  verifyUploadedContent,
+  verifyUploadedObjects,
+} from "../services/uploadService"
+import { deleteObjects, getRiffObjectKeys } from "../services/storageGcService"
+import {
+  checkRemixRights,
+  getLineageTree,
+  MAX_LINEAGE_DEPTH,
+  parseParentRiffIds,
+  type RemixGrant,
+} from "../services/lineageService"
+import { checkCollectionAssignment, nextCollectionPosition } from "../services/collectionService"
+import { recordActivity } from "../services/activityService"
+import { pageArgs, parseIncludes, parsePageParams, toPage } from "../utils/pagination"
+import { publicUserSelect } from "../utils/projections"
+import { isSupportedMimeType, verifyFileType } from "../utils/fileSignatures"
 import logger from "../../config/logger"
 
 const router = express.Router()
@@ -28,26 +59,27 @@ const storage = multer.diskStorage({
 const upload = multer({
   storage,
   limits: { fileSize: 25 * 1024 * 1024 }, // 25MB limit
+  // Declared types are only a first filter; the content is verified once the file is received
   fileFilter: (req, file, cb) => {
     if (file.fieldname === "audio") {
-      if (file.mimetype.startsWith("audio/")) {
+      if (isSupportedMimeType("audio", file.mimetype)) {
         cb(null, true)
       } else {
         logger.warn("Invalid file type: audio file expected", {
           mimetype: file.mimetype,
           fieldname: file.fieldname,
         })
-        cb(new Error("Only audio files are allowed"))
+        cb(new Error("Only MP3, WAV, FLAC, OGG and AAC/M4A audio files are allowed"))
       }
     } else if (file.fieldname === "coverImage") {
-      if (file.mimetype.startsWith("image/")) {
+      if (isSupportedMimeType("image", file.mimetype)) {
         cb(null, true)
       } else {
         logger.warn("Invalid file type: image file expected", {
           mimetype: file.mimetype,
           fieldname: file.fieldname,
         })
-        cb(new Error("Only image files are allowed"))
+        cb(new Error("Only JPEG, PNG and WebP images are allowed"))
       }
     } else {
       logger.warn("Unexpected field in file upload", { fieldname: file.fieldname })
@@ -56,11 +88,118 @@ const upload = multer({
   },
 })
 
+interface RiffMedia {
+  audioUrl: string
+  audioKey: string
+  previewUrl: string | null
+  coverImageUrl: string | null
+  analysis: AudioAnalysis | null
+}
+
+/**
+ * Cut and store the public preview of an uploaded riff
+ * @param userId ID of the artist
+ * @param filename Audio file name, already made safe for use in a storage key
+ * @param audioBuffer Audio content
+ * @param analysis Analysis of the audio
+ * @returns Stored preview, or null if no preview could be cut
+ */
+async function storePreview(userId: string, filename: string, audioBuffer: Buffer, analysis: AudioAnalysis) {
+  const preview = createPreviewClip(audioBuffer, analysis)
+  if (!preview) {
+    return null
+  }
+
+  return getStorage().upload(`previews/${userId}/${Date.now()}-${filename}`, preview.body, {
+    contentType: preview.contentType,
+  })
+}
+
+/**
+ * Create the riff record of an upload, creating its new collection if one was requested
+ * @param userId ID of the artist
+ * @param body Riff fields from the request
+ * @param media Stored files and audio analysis
+ * @param remixGrants Parent riffs the uploader may remix, already checked
+ * @returns Created riff
+ */
+async function createRiffRecord(userId: string, body: any, media: RiffMedia, remixGrants: RemixGrant[]) {
+  const {
+    title,
+    description,
+    genre,
+    mood,
+    instrument,
+    keySignature,
+    timeSignature,
+    isBargainBin,
+    duration,
+    collectionId,
+    newCollectionName,
+  } = body
+  const { analysis } = media
+
+  // Handle collection
+  let finalCollectionId = collectionId
+
+  if (!collectionId && newCollectionName) {
+    logger.info(`Creating new collection: ${newCollectionName}`, { userId })
+    const newCollection = await prisma.collection.create({
+      data: {
+        name: newCollectionName,
+        position: await nextCollectionPosition(userId),
+        userId,
+      },
+    })
+
+    finalCollectionId = newCollection.id
+    logger.debug(`New collection created with ID: ${finalCollectionId}`)
+  }
+
+  return prisma.$transaction(async (tx) => {
+    const riff = await tx.riff.create({
+      data: {
+        title,
+        description,
+        audioUrl: media.audioUrl,
+        audioKey: media.audioKey,
+        previewUrl: media.previewUrl,
+        coverImageUrl: media.coverImageUrl,
+        genre,
+        mood,
+        instrument,
+        keySignature,
+        timeSignature,
+        isBargainBin: isBargainBin === true || isBargainBin === "true",
+        // The client-supplied duration is only used for formats the server cannot measure
+        duration: analysis ? analysis.duration : duration ? Number.parseFloat(duration) : null,
+        audioFormat: analysis?.format,
+        sampleRate: analysis?.sampleRate,
+        channels: analysis?.channels,
+        bitrate: analysis?.bitrate,
+        bpm: analysis?.bpm,
+        waveformPeaks: analysis?.waveformPeaks ?? [],
+        userId,
+        parents: {
+          create: remixGrants.map(({ parentId, grantedBy }) => ({ parentId, grantedBy })),
+        },
+        collectionId: finalCollectionId || null,
+      },
+    })
+
+    await recordActivity(tx, { type: "riffCreated", artistId: userId, riffId: riff.id })
+
+    return riff
+  })
+}
+
 // Get all riffs (public)
 router.get("/", async (req, res) => {
   try {
     const { genre, mood, instrument, sort = "newest" } = req.query
-    logger.info("Fetching all riffs", { genre, mood, instrument, sort })
+    const page = parsePageParams(req.query)
+    const includes = parseIncludes(req.query, ["tips", "stakingRecords"] as const)
+    logger.info("Fetching all riffs", { genre, mood, instrument, sort, ...page })
 
     // Build filter conditions
     const where: any = {}
@@ -77,36 +216,98 @@ router.get("/", async (req, res) => {
       where.instrument = instrument as string
     }
 
-    // Build sort options
-    let orderBy: any = { createdAt: "desc" }
+    // Build sort options; id is the tiebreaker that keeps cursor pages stable
+    let orderBy: any[] = [{ createdAt: "desc" }, { id: "desc" }]
 
     if (sort === "oldest") {
-      orderBy = { createdAt: "asc" }
+      orderBy = [{ createdAt: "asc" }, { id: "asc" }]
     } else if (sort === "a-z") {
-      orderBy = { title: "asc" }
+      orderBy = [{ title: "asc" }, { id: "asc" }]
     } else if (sort === "z-a") {
-      orderBy = { title: "desc" }
+      orderBy = [{ title: "desc" }, { id: "desc" }]
     }
 
     const riffs = await prisma.riff.findMany({
       where,
       orderBy,
+      ...pageArgs(page),
       include: {
-        user: true,
+        user: { select: publicUserSelect },
         nft: true,
-        tips: true,
-        stakingRecords: true,
+        tips: includes.has("tips"),
+        stakingRecords: includes.has("stakingRecords"),
       },
     })
 
-    logger.debug(`Found ${riffs.length} riffs matching criteria`, { filters: where, sort: orderBy })
-    res.json(riffs)
+    const { items, nextCursor } = toPage(riffs, page)
+
+    logger.debug(`Found ${items.length} riffs matching criteria`, { filters: where, sort: orderBy, nextCursor })
+    res.json({ items: await withRiffStats(items), nextCursor })
   } catch (error) {
     logger.error(`Error fetching riffs: ${error}`, { query: req.query })
     res.status(500).json({ message: "Server error" })
   }
 })
 
+// Ranked full-text search over riffs with facet counts
+router.get("/search", async (req, res) => {
+  try {
+    const { q = "", genre, mood, instrument, key } = req.query
+    const page = parsePageParams(req.query)
+    logger.info("Searching riffs", { q, genre, mood, instrument, key, limit: page.limit })
+
+    // Ranked results cannot be keyed by ID, so the cursor is the offset of the next page
+    const offset = page.cursor ? Number.parseInt(page.cursor, 10) : 0
+    if (!Number.isInteger(offset) || offset < 0) {
+      logger.warn("Invalid search cursor", { cursor: page.cursor })
+      return res.status(400).json({ message: "Invalid cursor" })
+    }
+
+    const filterValue = (value: unknown) => (typeof value === "string" && value && value !== "All" ? value : undefined)
+
+    const result = await searchRiffs({
+      query: String(q).trim(),
+      filters: {
+        genre: filterValue(genre),
+        mood: filterValue(mood),
+        instrument: filterValue(instrument),
+        keySignature: filterValue(key),
+      },
+      limit: page.limit,
+      offset,
+    })
+
+    const riffs = await prisma.riff.findMany({
+      where: { id: { in: result.ids } },
+      include: {
+        user: { select: publicUserSelect },
+        nft: true,
+      },
+    })
+
+    // Restore rank order, which findMany does not preserve
+    const byId = new Map(riffs.map((riff) => [riff.id, riff]))
+    const ranked = result.ids
+      .map((id) => byId.get(id))
+      .filter((riff): riff is (typeof riffs)[number] => !!riff)
+      .map((riff) => ({ ...riff, rank: result.ranks.get(riff.id) ?? 0 }))
+
+    const nextOffset = offset + result.ids.length
+    const nextCursor = nextOffset < result.total ? String(nextOffset) : null
+
+    logger.debug(`Riff search returned ${ranked.length} of ${result.total} matches`, { nextCursor })
+    res.json({
+      items: await withRiffStats(ranked),
+      nextCursor,
+      total: result.total,
+      facets: result.facets,
+    })
+  } catch (error) {
+    logger.error(`Error searching riffs: ${error}`, { query: req.query })
+    res.status(500).json({ message: "Server error" })
+  }
+})
+
 // Get a single riff by ID
 router.get("/:id", async (req, res) => {
   try {
@@ -116,7 +317,7 @@ router.get("/:id", async (req, res) => {
     const riff = await prisma.riff.findUnique({
       where: { id },
       include: {
-        user: true,
+        user: { select: publicUserSelect },
         nft: true,
         tips: true,
         stakingRecords: true,
@@ -137,6 +338,304 @@ router.get("/:id", async (req, res) => {
   }
 })
 
+// Get the ancestor or descendant tree of a riff
+router.get("/:id/:direction(ancestors|descendants)", async (req, res) => {
+  try {
+    const { id } = req.params
+    const direction = req.params.direction as "ancestors" | "descendants"
+    const requested = Number.parseInt(String(req.query.depth ?? ""), 10)
+    const depth = Number.isFinite(requested) && requested > 0 ? Math.min(requested, MAX_LINEAGE_DEPTH) : 3
+    logger.info(`Fetching ${direction} of riff: ${id}`, { depth })
+
+    const riff = await prisma.riff.findUnique({
+      where: { id },
+      select: { id: true, title: true },
+    })
+
+    if (!riff) {
+      logger.warn(`Riff not found: ${id}`)
+      return res.status(404).json({ message: "Riff not found" })
+    }
+
+    const tree = await getLineageTree(id, direction, depth)
+
+    logger.debug(`Lineage tree built for riff: ${id}`, { direction, truncated: tree.truncated })
+    res.json({ riff, direction, depth, ...tree })
+  } catch (error) {
+    logger.error(`Error fetching riff lineage: ${error}`, { id: req.params.id })
+    res.status(500).json({ message: "Server error" })
+  }
+})
+
+// Get a short-lived URL for the full-quality audio (artist, NFT holder, or as the NFT allows)
+router.get("/:id/audio", authMiddleware, async (req, res) => {
+  try {
+    const { id } = req.params
+    const userId = req.user.id
+    logger.info(`Full audio requested for riff: ${id}`, { userId })
+
+    const riff = await prisma.riff.findUnique({
+      where: { id },
+      include: { nft: true },
+    })
+
+    if (!riff) {
+      logger.warn(`Riff not found for audio access: ${id}`)
+      return res.status(404).json({ message: "Riff not found" })
+    }
+
+    if (!(await canAccessFullAudio(riff, userId))) {
+      logger.warn(`Unauthorized full audio access attempt: ${id}`, {
+        requestUserId: userId,
+        ownerUserId: riff.nft?.ownerId ?? riff.userId,
+      })
+      return res.status(403).json({ message: "Full-quality audio is reserved for the artist and NFT holder" })
+    }
+
+    const signed = await signFullAudioUrl(riff)
+
+    if (!signed) {
+      return res.status(404).json({ message: "Audio file not available" })
+    }
+
+    const { url, expiresAt } = signed
+
+    logger.debug(`Full audio URL issued for riff: ${id}`, { userId, expiresAt })
+    res.json({ url, expiresAt })
+  } catch (error) {
+    logger.error(`Error issuing full audio URL: ${error}`, { id: req.params.id, userId: req.user?.id })
+    res.status(500).json({ message: "Server error" })
+  }
+})
+
+// Follow a riff
+router.post("/:id/follow", authMiddleware, async (req, res) => {
+  try {
+    const { id } = req.params
+    const userId = req.user.id
+    logger.info(`User ${userId} following riff: ${id}`)
+
+    const riff = await prisma.riff.findUnique({
+      where: { id },
+      select: { id: true },
+    })
+
+    if (!riff) {
+      logger.warn(`Riff not found for follow: ${id}`)
+      return res.status(404).json({ message: "Riff not found" })
+    }
+
+    const existing = await prisma.riffFollow.findUnique({
+      where: { userId_riffId: { userId, riffId: id } },
+    })
+
+    if (existing) {
+      return res.json(existing)
+    }
+
+    const follow = await prisma.riffFollow.create({
+      data: { userId, riffId: id },
+    })
+
+    logger.info(`Riff followed: ${id}`, { userId })
+    res.status(201).json(follow)
+  } catch (error) {
+    logger.error(`Error following riff: ${error}`, { id: req.params.id, userId: req.user?.id })
+    res.status(500).json({ message: "Server error" })
+  }
+})
+
+// Unfollow a riff
+router.delete("/:id/follow", authMiddleware, async (req, res) => {
+  try {
+    const { id } = req.params
+    const userId = req.user.id
+    logger.info(`User ${userId} unfollowing riff: ${id}`)
+
+    const { count } = await prisma.riffFollow.deleteMany({
+      where: { userId, riffId: id },
+    })
+
+    if (count === 0) {
+      return res.status(404).json({ message: "Not following this riff" })
+    }
+
+    res.json({ message: "Unfollowed successfully" })
+  } catch (error) {
+    logger.error(`Error unfollowing riff: ${error}`, { id: req.params.id, userId: req.user?.id })
+    res.status(500).json({ message: "Server error" })
+  }
+})
+
+// Get the followers of a riff, most recent first
+router.get("/:id/followers", async (req, res) => {
+  try {
+    const { id } = req.params
+    const page = parsePageParams(req.query)
+    logger.info(`Fetching followers of riff: ${id}`, page)
+
+    const follows = await prisma.riffFollow.findMany({
+      where: { riffId: id },
+      orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+      ...pageArgs(page),
+      include: { user: { select: publicUserSelect } },
+    })
+
+    const { items, nextCursor } = toPage(follows, page)
+
+    logger.debug(`Found ${items.length} followers of riff ${id}`, { nextCursor })
+    res.json({ items, nextCursor })
+  } catch (error) {
+    logger.error(`Error fetching riff followers: ${error}`, { id: req.params.id })
+    res.status(500).json({ message: "Server error" })
+  }
+})
+
+// Start a direct upload: returns presigned PUT requests for the audio and cover image
+router.post("/uploads", authMiddleware, async (req, res) => {
+  try {
+    const userId = req.user.id
+    const { audio, coverImage } = req.body
+    logger.info(`Creating direct upload for user: ${userId}`)
+
+    const validationError =
+      validateUploadFile("audio", audio) || (coverImage ? validateUploadFile("coverImage", coverImage) : null)
+
+    if (validationError) {
+      logger.warn(`Invalid direct upload request: ${validationError}`, { userId })
+      return res.status(400).json({ message: validationError })
+    }
+
+    const { upload, ...requests } = await createUpload(userId, audio, coverImage)
+
+    res.status(201).json({ id: upload.id, expiresAt: upload.expiresAt, ...requests })
+  } catch (error) {
+    logger.error(`Error creating direct upload: ${error}`, { userId: req.user?.id })
+    res.status(500).json({ message: "Server error" })
+  }
+})
+
+// Finalize a direct upload: verify the stored files and create the riff
+router.post("/uploads/:id/finalize", authMiddleware, async (req, res) => {
+  const { id } = req.params
+
+  try {
+    const userId = req.user.id
+    logger.info(`Finalizing direct upload: ${id}`, { userId })
+
+    const upload = await prisma.riffUpload.findUnique({ where: { id } })
+
+    if (!upload) {
+      logger.warn(`Direct upload not found: ${id}`)
+      return res.status(404).json({ message: "Upload not found" })
+    }
+
+    if (upload.userId !== userId) {
+      logger.warn(`Unauthorized upload finalize attempt: ${id}`, {
+        requestUserId: userId,
+        ownerUserId: upload.userId,
+      })
+      return res.status(403).json({ message: "Not authorized to finalize this upload" })
+    }
+
+    if (upload.status === "finalized") {
+      return res.status(409).json({ message: "Upload is already finalized", riffId: upload.riffId })
+    }
+
+    if (upload.status === "expired" || upload.expiresAt < new Date()) {
+      return res.status(410).json({ message: "Upload has expired" })
+    }
+
+    const parentRiffIds = parseParentRiffIds(req.body.parentRiffIds)
+    if (!parentRiffIds) {
+      return res.status(400).json({ message: "parentRiffIds must be a list of riff IDs" })
+    }
+
+    const remix = await checkRemixRights(userId, parentRiffIds)
+    if (remix.error !== undefined) {
+      return res.status(remix.status).json({ message: remix.error })
+    }
+
+    if (req.body.collectionId) {
+      const assignmentError = await checkCollectionAssignment(userId, req.body.collectionId)
+      if (assignmentError) {
+        return res.status(assignmentError.status).json({ message: assignmentError.error })
+      }
+    }
+
+    const verificationError = await verifyUploadedObjects(upload)
+    if (verificationError) {
+      logger.warn(`Direct upload verification failed: ${verificationError}`, { id, userId })
+      return res.status(400).json({ message: verificationError })
+    }
+
+    const audioBuffer = await readObject(upload.audioKey)
+
+    // The declared type was enforced on upload; the content must match it too
+    const contentError = await verifyUploadedContent(upload, audioBuffer)
+    if (contentError) {
+      logger.warn(`Direct upload content mismatch: ${contentError}`, { id, userId })
+      await rejectUpload(upload)
+      return res.status(400).json({ message: contentError })
+    }
+
+    let analysis: AudioAnalysis | null
+    try {
+      analysis = analyzeAudio(audioBuffer)
+    } catch (error) {
+      if (!(error instanceof AudioAnalysisError)) throw error
+
+      logger.warn(`Rejected unreadable audio upload: ${error.message}`, { id, userId })
+      return res.status(400).json({ message: `Invalid audio file: ${error.message}` })
+    }
+
+    // Claim the upload so concurrent finalize calls cannot create two riffs
+    const claimed = await prisma.riffUpload.updateMany({
+      where: { id, status: "pending" },
+      data: { status: "finalized" },
+    })
+
+    if (claimed.count === 0) {
+      return res.status(409).json({ message: "Upload is already finalized or expired" })
+    }
+
+    let preview: StoredObject | null = null
+    try {
+      const storage = getStorage()
+      preview = analysis
+        ? await storePreview(userId, safeKeyFilename(upload.audioFilename), audioBuffer, analysis)
+        : null
+      const riff = await createRiffRecord(
+        userId,
+        req.body,
+        {
+          audioUrl: storage.getUrl(upload.audioKey),
+          audioKey: upload.audioKey,
+          previewUrl: preview?.url ?? null,
+          coverImageUrl: upload.coverImageKey ? storage.getUrl(upload.coverImageKey) : null,
+          analysis,
+        },
+        remix.grants,
+      )
+
+      await prisma.riffUpload.update({ where: { id }, data: { riffId: riff.id } })
+
+      logger.info(`Riff created from direct upload: ${riff.id}`, { uploadId: id, userId })
+      res.status(201).json(riff)
+    } catch (error) {
+      // Release the claim so the client can retry before the upload expires; the uploaded files stay
+      if (preview) {
+        await deleteObjects([preview.key], { uploadId: id })
+      }
+      await prisma.riffUpload.update({ where: { id }, data: { status: "pending" } })
+      throw error
+    }
+  } catch (error) {
+    logger.error(`Error finalizing direct upload: ${error}`, { id, userId: req.user?.id })
+    res.status(500).json({ message: "Server error" })
+  }
+})
+
 // Upload a new riff
 router.post(
   "/",
@@ -146,12 +645,14 @@ router.post(
     { name: "coverImage", maxCount: 1 },
   ]),
   async (req: any, res: any) => {
+    const files = (req.files ?? {}) as { [fieldname: string]: Express.Multer.File[] }
+    // Objects stored so far, deleted again if the upload fails
+    const storedKeys: string[] = []
+
     try {
       const userId = req.user.id
       logger.info(`Uploading new riff for user: ${userId}`)
 
-      const files = req.files as { [fieldname: string]: Express.Multer.File[] }
-
       if (!files.audio || !files.audio[0]) {
         logger.warn("Audio file missing in upload request", { userId })
         return res.status(400).json({ message: "Audio file is required" })
@@ -160,6 +661,25 @@ router.post(
       const audioFile = files.audio[0]
       const coverImageFile = files.coverImage ? files.coverImage[0] : null
 
+      // Remixes must hold rights to every riff they derive from
+      const parentRiffIds = parseParentRiffIds(req.body.parentRiffIds)
+      if (!parentRiffIds) {
+        return res.status(400).json({ message: "parentRiffIds must be a list of riff IDs" })
+      }
+
+      const remix = await checkRemixRights(userId, parentRiffIds)
+      if (remix.error !== undefined) {
+        return res.status(remix.status).json({ message: remix.error })
+      }
+
+      // Riffs can only be filed into the uploader's own collections
+      if (req.body.collectionId) {
+        const assignmentError = await checkCollectionAssignment(userId, req.body.collectionId)
+        if (assignmentError) {
+          return res.status(assignmentError.status).json({ message: assignmentError.error })
+        }
+      }
+
       logger.debug("Files received for upload", {
         audioFile: audioFile.originalname,
         audioSize: audioFile.size,
@@ -167,79 +687,99 @@ router.post(
         coverImageSize: coverImageFile?.size,
       })
 
-      // Upload files to S3
-      const audioUrl = await uploadToS3(audioFile.path, `riffs/${userId}/${Date.now()}-${audioFile.originalname}`)
-      let coverImageUrl = null
+      // Check the content really is the declared format before anything is stored
+      const audioBuffer = await fs.promises.readFile(audioFile.path)
+      const audioType = verifyFileType(audioBuffer, "audio", audioFile.mimetype)
+      const coverImageBuffer = coverImageFile ? await fs.promises.readFile(coverImageFile.path) : null
+      const coverImageType =
+        coverImageFile && coverImageBuffer ? verifyFileType(coverImageBuffer, "image", coverImageFile.mimetype) : null
 
-      if (coverImageFile) {
-        coverImageUrl = await uploadToS3(
-          coverImageFile.path,
-          `covers/${userId}/${Date.now()}-${coverImageFile.originalname}`,
-        )
+      const typeError = audioType.error ?? coverImageType?.error
+      if (typeError) {
+        logger.warn(`Rejected upload with mismatched content: ${typeError}`, {
+          userId,
+          audioMimetype: audioFile.mimetype,
+          coverImageMimetype: coverImageFile?.mimetype,
+        })
+        return res.status(400).json({ message: typeError })
       }
 
-      logger.debug("Files uploaded to S3", { audioUrl, hasCoverImage: !!coverImageUrl })
+      // Measure the audio before storing it; corrupt or truncated files are rejected
+      let analysis: AudioAnalysis | null
+      try {
+        analysis = analyzeAudio(audioBuffer)
+      } catch (error) {
+        if (!(error instanceof AudioAnalysisError)) throw error
 
-      // Clean up local files
-      fs.unlinkSync(audioFile.path)
-      if (coverImageFile) {
-        fs.unlinkSync(coverImageFile.path)
+        logger.warn(`Rejected unreadable audio upload: ${error.message}`, {
+          userId,
+          audioFile: audioFile.originalname,
+        })
+        return res.status(400).json({ message: `Invalid audio file: ${error.message}` })
       }
 
-      const {
-        title,
-        description,
-        genre,
-        mood,
-        instrument,
-        keySignature,
-        timeSignature,
-        isBargainBin,
-        duration,
-        collectionId,
-        newCollectionName,
-      } = req.body
-
-      // Handle collection
-      let finalCollectionId = collectionId
-
-      if (!collectionId && newCollectionName) {
-        logger.info(`Creating new collection: ${newCollectionName}`, { userId })
-        const newCollection = await prisma.collection.create({
-          data: {
-            name: newCollectionName,
-            userId,
-          },
-        })
+      logger.debug("Audio analysed", {
+        format: analysis?.format,
+        duration: analysis?.duration,
+        bpm: analysis?.bpm,
+      })
 
-        finalCollectionId = newCollection.id
-        logger.debug(`New collection created with ID: ${finalCollectionId}`)
+      // Store the files; the full-quality audio stays private and is served through signed URLs
+      const storage = getStorage()
+      // Keys and content types come from the verified formats, not the client's file names
+      const audioFilename = safeKeyFilename(audioFile.originalname, audioType.type!.extension)
+      const audioKey = `riffs/${userId}/${Date.now()}-${audioFilename}`
+      const { url: audioUrl } = await storage.upload(audioKey, audioBuffer, {
+        contentType: audioType.type!.mimeType,
+        isPublic: false,
+      })
+      storedKeys.push(audioKey)
+
+      const preview = analysis ? await storePreview(userId, audioFilename, audioBuffer, analysis) : null
+      if (preview) storedKeys.push(preview.key)
+
+      let coverImage: StoredObject | null = null
+      if (coverImageFile && coverImageBuffer && coverImageType?.type) {
+        const coverImageFilename = safeKeyFilename(coverImageFile.originalname, coverImageType.type.extension)
+        coverImage = await storage.upload(
+          `covers/${userId}/${Date.now()}-${coverImageFilename}`,
+          coverImageBuffer,
+          { contentType: coverImageType.type.mimeType },
+        )
+        storedKeys.push(coverImage.key)
       }
 
-      // Create the riff
-      const riff = await prisma.riff.create({
-        data: {
-          title,
-          description,
+      logger.debug("Files stored", {
+        provider: storage.name,
+        audioKey,
+        hasPreview: !!preview,
+        hasCoverImage: !!coverImage,
+      })
+
+      const riff = await createRiffRecord(
+        userId,
+        req.body,
+        {
           audioUrl,
-          coverImageUrl,
-          genre,
-          mood,
-          instrument,
-          keySignature,
-          timeSignature,
-          isBargainBin: isBargainBin === "true",
-          duration: duration ? Number.parseFloat(duration) : null,
-          userId,
-          collectionId: finalCollectionId || null,
+          audioKey,
+          previewUrl: preview?.url ?? null,
+          coverImageUrl: coverImage?.url ?? null,
+          analysis,
         },
-      })
+        remix.grants,
+      )
 
-      logger.info(`Riff created successfully: ${riff.id}`, { title, userId })
+      logger.info(`Riff created successfully: ${riff.id}`, { title: riff.title, userId })
       res.status(201).json(riff)
     } catch (error) {
       logger.error(`Error uploading riff: ${error}`, { userId: req.user?.id })
+      await deleteObjects(storedKeys, { userId: req.user?.id })
       res.status(500).json({ message: "Server error" })
+    } finally {
+      // Temporary multer files never outlive the request, whatever the outcome
+      for (const file of Object.values(files).flat()) {
+        await fs.promises.rm(file.path, { force: true })
+      }
     }
   },
 )
@@ -281,6 +821,13 @@ router.put("/:id", authMiddleware, async (req, res) => {
       collectionId,
     })
 
+    if (collectionId && collectionId !== existingRiff.collectionId) {
+      const assignmentError = await checkCollectionAssignment(userId, collectionId)
+      if (assignmentError) {
+        return res.status(assignmentError.status).json({ message: assignmentError.error })
+      }
+    }
+
     const updatedRiff = await prisma.riff.update({
       where: { id },
       data: {
@@ -329,11 +876,20 @@ router.delete("/:id", authMiddleware, async (req, res) => {
       return res.status(403).json({ message: "Not authorized to delete this riff" })
     }
 
-    // Delete the riff
+    // Remixes keep their lineage and keep paying upstream, so their parents cannot go away
+    const remixCount = await prisma.riffLineage.count({ where: { parentId: id } })
+    if (remixCount > 0) {
+      logger.warn(`Attempted to delete a remixed riff: ${id}`, { remixCount })
+      return res.status(409).json({ message: "Riff has remixes and cannot be deleted" })
+    }
+
+    // Delete the riff, then its files; leftovers from failed deletes are caught by storage reconciliation
     await prisma.riff.delete({
       where: { id },
     })
 
+    await deleteObjects(getRiffObjectKeys(existingRiff), { riffId: id })
+
     logger.info(`Riff deleted successfully: ${id}`)
     res.json({ message: "Riff deleted successfully" })
   } catch (error) {
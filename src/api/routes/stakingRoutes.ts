@@ -1,6 +1,20 @@
 import express from "express"
 import { PrismaClient } from "@prisma/client"
 import { authMiddleware } from "../middleware/authMiddleware"
+import {
+  InsufficientBalanceError,
+  parseAmount,
+  postTransaction,
+  postTransfer,
+  SYSTEM_ACCOUNTS,
+  userAccountCode,
+} from "../services/ledgerService"
+import { accrueRewards, claimRewards } from "../services/stakingRewardsService"
+import { getTiers, quoteEarlyExit, quoteStake, resolveTier, validateTiers } from "../services/stakingTierService"
+import { recordStakingMilestones } from "../services/activityService"
+import { notify } from "../services/notificationService"
+import { pageArgs, parsePageParams, toPage } from "../utils/pagination"
+import { publicUserSelect } from "../utils/projections"
 import logger from "../../config/logger"
 
 const router = express.Router()
@@ -10,29 +24,189 @@ const prisma = new PrismaClient()
 router.get("/riff/:riffId", async (req, res) => {
   try {
     const { riffId } = req.params
-    logger.info(`Fetching staking records for riff: ${riffId}`)
+    const page = parsePageParams(req.query)
+    logger.info(`Fetching staking records for riff: ${riffId}`, page)
 
     const stakingRecords = await prisma.staking.findMany({
       where: { riffId },
+      orderBy: [{ stakedAt: "desc" }, { id: "desc" }],
+      ...pageArgs(page),
       include: {
-        user: true,
+        user: { select: publicUserSelect },
       },
     })
 
-    logger.debug(`Found ${stakingRecords.length} staking records for riff: ${riffId}`)
-    res.json(stakingRecords)
+    const { items, nextCursor } = toPage(stakingRecords, page)
+
+    logger.debug(`Found ${items.length} staking records for riff: ${riffId}`, { nextCursor })
+    res.json({ items, nextCursor })
   } catch (error) {
     logger.error(`Error fetching staking records: ${error}`, { riffId: req.params.riffId })
     res.status(500).json({ message: "Server error" })
   }
 })
 
+// Get the staking tiers offered on a riff
+router.get("/tiers/:riffId", async (req, res) => {
+  try {
+    const { riffId } = req.params
+    logger.info(`Fetching staking tiers for riff: ${riffId}`)
+
+    const nft = await prisma.nFT.findUnique({
+      where: { riffId },
+    })
+
+    if (!nft) {
+      logger.warn(`NFT not found for staking tiers: ${riffId}`)
+      return res.status(404).json({ message: "Riff is not minted as an NFT" })
+    }
+
+    const tiers = await getTiers(nft.id)
+
+    logger.debug(`Found ${tiers.length} staking tiers for riff: ${riffId}`)
+    res.json(tiers)
+  } catch (error) {
+    logger.error(`Error fetching staking tiers: ${error}`, { riffId: req.params.riffId })
+    res.status(500).json({ message: "Server error" })
+  }
+})
+
+// Replace the staking tiers offered on a riff (artist only)
+router.put("/tiers/:riffId", authMiddleware, async (req, res) => {
+  try {
+    const { riffId } = req.params
+    const userId = req.user.id
+    const { tiers } = req.body
+    logger.info(`Updating staking tiers for riff: ${riffId}`, { userId })
+
+    const riff = await prisma.riff.findUnique({
+      where: { id: riffId },
+      include: {
+        nft: true,
+      },
+    })
+
+    if (!riff || !riff.nft) {
+      logger.warn(`NFT not found for staking tiers: ${riffId}`)
+      return res.status(404).json({ message: "Riff is not minted as an NFT" })
+    }
+
+    if (riff.userId !== userId) {
+      logger.warn(`Unauthorized staking tier update attempt: ${riffId}`, {
+        requestUserId: userId,
+        ownerUserId: riff.userId,
+      })
+      return res.status(403).json({ message: "Not authorized to configure staking for this riff" })
+    }
+
+    const validated = validateTiers(tiers)
+    if (validated.error !== undefined) {
+      logger.warn(`Invalid staking tiers for riff: ${riffId}`, { validationError: validated.error })
+      return res.status(400).json({ message: validated.error })
+    }
+
+    const nftId = riff.nft.id
+
+    // Existing stakes keep the terms copied onto them; only new stakes see the new tiers
+    await prisma.$transaction([
+      prisma.stakingTier.deleteMany({ where: { nftId } }),
+      prisma.stakingTier.createMany({
+        data: validated.tiers.map((tier) => ({ nftId, ...tier })),
+      }),
+    ])
+
+    const updatedTiers = await getTiers(nftId)
+
+    logger.info(`Staking tiers updated for riff: ${riffId}`, { tiers: updatedTiers.length })
+    res.json(updatedTiers)
+  } catch (error) {
+    logger.error(`Error updating staking tiers: ${error}`, { riffId: req.params.riffId, userId: req.user?.id })
+    res.status(500).json({ message: "Server error" })
+  }
+})
+
+// Quote a stake before committing: unlock date, projected reward and early exit penalty
+router.get("/quote", async (req, res) => {
+  try {
+    const { riffId, amount, tierId } = req.query
+    logger.info(`Quoting stake on riff: ${riffId}`, { amount, tierId })
+
+    if (typeof riffId !== "string" || !riffId) {
+      logger.warn("Missing riffId for stake quote")
+      return res.status(400).json({ message: "riffId is required" })
+    }
+
+    const parsedAmount = parseAmount(amount)
+    if (parsedAmount === null) {
+      logger.warn("Invalid staking amount for quote", { amount })
+      return res.status(400).json({ message: "Amount must be a positive number" })
+    }
+
+    const nft = await prisma.nFT.findUnique({
+      where: { riffId },
+    })
+
+    if (!nft) {
+      logger.warn(`NFT not found for stake quote: ${riffId}`)
+      return res.status(404).json({ message: "Riff is not minted as an NFT" })
+    }
+
+    const tier = await resolveTier(nft.id, tierId as string | undefined)
+    if (!tier) {
+      logger.warn(`Staking tier not found: ${tierId}`, { riffId })
+      return res.status(404).json({ message: "Staking tier not found" })
+    }
+
+    res.json(quoteStake(tier, parsedAmount))
+  } catch (error) {
+    logger.error(`Error quoting stake: ${error}`, { query: req.query })
+    res.status(500).json({ message: "Server error" })
+  }
+})
+
+// Quote leaving a stake now, including any early exit penalty
+router.get("/unstake-quote/:id", authMiddleware, async (req, res) => {
+  try {
+    const { id } = req.params
+    const userId = req.user.id
+    logger.info(`Quoting unstake of record: ${id}`, { userId })
+
+    const stakingRecord = await prisma.staking.findUnique({
+      where: { id },
+    })
+
+    if (!stakingRecord) {
+      logger.warn(`Staking record not found: ${id}`)
+      return res.status(404).json({ message: "Staking record not found" })
+    }
+
+    if (stakingRecord.userId !== userId) {
+      logger.warn(`Unauthorized unstake quote attempt: ${id}`, {
+        requestUserId: userId,
+        ownerUserId: stakingRecord.userId,
+      })
+      return res.status(403).json({ message: "Not authorized to view this record" })
+    }
+
+    res.json(quoteEarlyExit(stakingRecord))
+  } catch (error) {
+    logger.error(`Error quoting unstake: ${error}`, { id: req.params.id, userId: req.user?.id })
+    res.status(500).json({ message: "Server error" })
+  }
+})
+
 // Stake on a riff
 router.post("/stake", authMiddleware, async (req, res) => {
   try {
     const userId = req.user.id
-    const { riffId, amount } = req.body
-    logger.info(`User ${userId} staking on riff: ${riffId}`, { amount })
+    const { riffId, amount, tierId } = req.body
+    logger.info(`User ${userId} staking on riff: ${riffId}`, { amount, tierId })
+
+    const parsedAmount = parseAmount(amount)
+    if (parsedAmount === null) {
+      logger.warn("Invalid staking amount", { userId, amount })
+      return res.status(400).json({ message: "Amount must be a positive number" })
+    }
 
     // Check if riff exists and is mintable
     const riff = await prisma.riff.findUnique({
@@ -47,8 +221,8 @@ router.post("/stake", authMiddleware, async (req, res) => {
       return res.status(404).json({ message: "Riff not found" })
     }
 
-    if (!riff.nft) {
-      logger.warn(`Attempted to stake on non-NFT riff: ${riffId}`)
+    if (!riff.nft || riff.nft.status !== "confirmed") {
+      logger.warn(`Attempted to stake on non-NFT riff: ${riffId}`, { status: riff.nft?.status })
       return res.status(400).json({ message: "Riff is not minted as an NFT" })
     }
 
@@ -57,19 +231,44 @@ router.post("/stake", authMiddleware, async (req, res) => {
       return res.status(400).json({ message: "Staking is not enabled for this riff" })
     }
 
-    // Calculate unlock date (90 days from now)
-    const unlockAt = new Date()
-    unlockAt.setDate(unlockAt.getDate() + 90)
-    logger.debug(`Setting unlock date for staking: ${unlockAt.toISOString()}`)
+    const tier = await resolveTier(riff.nft.id, tierId)
+    if (!tier) {
+      logger.warn(`Staking tier not found: ${tierId}`, { riffId })
+      return res.status(404).json({ message: "Staking tier not found" })
+    }
 
-    // Create staking record
-    const stakingRecord = await prisma.staking.create({
-      data: {
-        amount: Number.parseFloat(amount),
-        riffId,
-        userId,
-        unlockAt,
-      },
+    // Calculate unlock date from the tier's lock period
+    const { unlockAt } = quoteStake(tier, parsedAmount)
+    logger.debug(`Setting unlock date for staking: ${unlockAt.toISOString()}`, { lockDays: tier.lockDays })
+
+    // Create staking record and lock the tokens in the staking escrow atomically
+    const stakingRecord = await prisma.$transaction(async (tx) => {
+      const stakingRecord = await tx.staking.create({
+        data: {
+          amount: parsedAmount,
+          riffId,
+          userId,
+          unlockAt,
+          tierId: tier.id,
+          lockDays: tier.lockDays,
+          rewardMultiplier: tier.rewardMultiplier,
+          earlyExitAllowed: tier.earlyExitAllowed,
+          earlyExitPenaltyPercent: tier.earlyExitPenaltyPercent,
+        },
+      })
+
+      await postTransfer(
+        tx,
+        "stake",
+        userAccountCode(userId),
+        SYSTEM_ACCOUNTS.staking,
+        parsedAmount,
+        stakingRecord.id,
+      )
+
+      await recordStakingMilestones(tx, { riffId, artistId: riff.userId, userId, amount: parsedAmount })
+
+      return stakingRecord
     })
 
     logger.info(`Staking record created successfully: ${stakingRecord.id}`, {
@@ -78,8 +277,23 @@ router.post("/stake", authMiddleware, async (req, res) => {
       amount: stakingRecord.amount,
       unlockAt,
     })
+
+    if (riff.userId !== userId) {
+      notify({
+        userId: riff.userId,
+        type: "stakeReceived",
+        title: `New stake on "${riff.title}"`,
+        body: `${req.user.name || "A fan"} staked ${stakingRecord.amount} RIFF on "${riff.title}"`,
+        data: { riffId, stakingId: stakingRecord.id },
+      })
+    }
     res.status(201).json(stakingRecord)
   } catch (error) {
+    if (error instanceof InsufficientBalanceError) {
+      logger.warn(`Stake rejected: insufficient balance`, { userId: req.user?.id, amount: req.body?.amount })
+      return res.status(400).json({ message: "Insufficient balance" })
+    }
+
     logger.error(`Error staking on riff: ${error}`, {
       userId: req.user?.id,
       riffId: req.body?.riffId,
@@ -94,7 +308,8 @@ router.post("/unstake/:id", authMiddleware, async (req, res) => {
   try {
     const { id } = req.params
     const userId = req.user.id
-    logger.info(`User ${userId} unstaking record: ${id}`)
+    const { acceptPenalty } = req.body
+    logger.info(`User ${userId} unstaking record: ${id}`, { acceptPenalty })
 
     // Check if staking record exists and belongs to user
     const stakingRecord = await prisma.staking.findUnique({
@@ -114,9 +329,16 @@ router.post("/unstake/:id", authMiddleware, async (req, res) => {
       return res.status(403).json({ message: "Not authorized to unstake this record" })
     }
 
-    // Check if staking period is over
+    if (stakingRecord.status === "withdrawn") {
+      logger.warn(`Staking record already withdrawn: ${id}`)
+      return res.status(400).json({ message: "Staking record already withdrawn" })
+    }
+
+    // Check if staking period is over, or whether the tier allows leaving early
     const now = new Date()
-    if (now < stakingRecord.unlockAt) {
+    const quote = quoteEarlyExit(stakingRecord, now)
+
+    if (!quote.allowed) {
       logger.warn(`Attempted to unstake before unlock date: ${id}`, {
         currentDate: now.toISOString(),
         unlockDate: stakingRecord.unlockAt.toISOString(),
@@ -127,15 +349,55 @@ router.post("/unstake/:id", authMiddleware, async (req, res) => {
       })
     }
 
-    // Update staking record status
-    const updatedStakingRecord = await prisma.staking.update({
-      where: { id },
-      data: {
-        status: "withdrawn",
-      },
+    if (quote.isEarly && acceptPenalty !== true) {
+      logger.warn(`Early unstake without accepting penalty: ${id}`, { penaltyAmount: quote.penaltyAmount })
+      return res.status(400).json({
+        message: "Unstaking before the unlock date incurs a penalty; resend with acceptPenalty: true",
+        quote,
+      })
+    }
+
+    // Settle rewards up to now (or the full lock period); they stay claimable after withdrawal
+    await accrueRewards(now, { id })
+
+    // Update staking record status and release the tokens from escrow atomically
+    const updatedStakingRecord = await prisma.$transaction(async (tx) => {
+      // Guarded on status so concurrent unstakes cannot release the tokens twice
+      const withdrawn = await tx.staking.updateMany({
+        where: { id, status: { not: "withdrawn" } },
+        data: {
+          status: "withdrawn",
+          penaltyPaid: quote.penaltyAmount,
+        },
+      })
+
+      if (withdrawn.count === 0) {
+        return null
+      }
+
+      // Early exit penalties are forfeited to the treasury
+      await postTransaction(tx, {
+        type: "unstake",
+        reference: stakingRecord.id,
+        legs: [
+          { accountCode: SYSTEM_ACCOUNTS.staking, amount: -stakingRecord.amount },
+          { accountCode: userAccountCode(userId), amount: quote.amountReturned },
+          { accountCode: SYSTEM_ACCOUNTS.treasury, amount: quote.penaltyAmount },
+        ],
+      })
+
+      return tx.staking.findUnique({ where: { id } })
     })
 
-    logger.info(`Staking record withdrawn successfully: ${id}`)
+    if (!updatedStakingRecord) {
+      logger.warn(`Staking record already withdrawn: ${id}`)
+      return res.status(400).json({ message: "Staking record already withdrawn" })
+    }
+
+    logger.info(`Staking record withdrawn successfully: ${id}`, {
+      early: quote.isEarly,
+      penaltyAmount: quote.penaltyAmount,
+    })
     res.json(updatedStakingRecord)
   } catch (error) {
     logger.error(`Error unstaking from riff: ${error}`, { id: req.params.id, userId: req.user?.id })
@@ -143,6 +405,117 @@ router.post("/unstake/:id", authMiddleware, async (req, res) => {
   }
 })
 
+// Get staking reward summary for the authenticated user
+router.get("/rewards", authMiddleware, async (req, res) => {
+  try {
+    const userId = req.user.id
+    logger.info(`Fetching staking rewards for user ${userId}`)
+
+    await accrueRewards(new Date(), { userId })
+
+    const stakingRecords = await prisma.staking.findMany({
+      where: { userId },
+      orderBy: { stakedAt: "desc" },
+    })
+
+    const stakes = stakingRecords.map((record) => ({
+      id: record.id,
+      riffId: record.riffId,
+      amount: record.amount,
+      status: record.status,
+      stakedAt: record.stakedAt,
+      unlockAt: record.unlockAt,
+      lockDays: record.lockDays,
+      rewardMultiplier: record.rewardMultiplier,
+      pendingRewards: record.pendingRewards,
+      royaltiesEarned: record.royaltiesEarned,
+      lastAccruedAt: record.lastAccruedAt,
+    }))
+
+    const totalPending = stakes.reduce((sum, stake) => sum + stake.pendingRewards, 0)
+    const totalEarned = stakes.reduce((sum, stake) => sum + stake.royaltiesEarned, 0)
+    const totalStaked = stakes
+      .filter((stake) => stake.status !== "withdrawn")
+      .reduce((sum, stake) => sum + stake.amount, 0)
+
+    logger.debug(`Staking rewards for user ${userId}`, { totalPending, totalEarned, totalStaked })
+    res.json({ totalStaked, totalPending, totalEarned, stakes })
+  } catch (error) {
+    logger.error(`Error fetching staking rewards: ${error}`, { userId: req.user?.id })
+    res.status(500).json({ message: "Server error" })
+  }
+})
+
+// Claim pending staking rewards, for all stakes or a single one
+router.post("/rewards/claim", authMiddleware, async (req, res) => {
+  try {
+    const userId = req.user.id
+    const { stakingId } = req.body
+    logger.info(`User ${userId} claiming staking rewards`, { stakingId })
+
+    if (stakingId) {
+      const stakingRecord = await prisma.staking.findUnique({
+        where: { id: stakingId },
+      })
+
+      if (!stakingRecord) {
+        logger.warn(`Staking record not found: ${stakingId}`)
+        return res.status(404).json({ message: "Staking record not found" })
+      }
+
+      if (stakingRecord.userId !== userId) {
+        logger.warn(`Unauthorized reward claim attempt: ${stakingId}`, {
+          requestUserId: userId,
+          ownerUserId: stakingRecord.userId,
+        })
+        return res.status(403).json({ message: "Not authorized to claim rewards for this record" })
+      }
+    }
+
+    const claims = await claimRewards(userId, stakingId)
+
+    if (claims.length === 0) {
+      logger.warn(`No staking rewards to claim for user ${userId}`, { stakingId })
+      return res.status(400).json({ message: "No rewards to claim" })
+    }
+
+    const totalClaimed = claims.reduce((sum, claim) => sum + claim.amount, 0)
+
+    logger.info(`Staking rewards claimed successfully by user ${userId}`, { totalClaimed })
+    res.status(201).json({ totalClaimed, claims })
+  } catch (error) {
+    logger.error(`Error claiming staking rewards: ${error}`, {
+      userId: req.user?.id,
+      stakingId: req.body?.stakingId,
+    })
+    res.status(500).json({ message: "Server error" })
+  }
+})
+
+// Get staking reward claim history for the authenticated user
+router.get("/rewards/claims", authMiddleware, async (req, res) => {
+  try {
+    const userId = req.user.id
+    logger.info(`Fetching staking reward claims for user ${userId}`)
+
+    const claims = await prisma.stakingClaim.findMany({
+      where: { userId },
+      orderBy: { createdAt: "desc" },
+      include: {
+        staking: {
+          select: { id: true, riffId: true, amount: true, status: true },
+        },
+      },
+    })
+
+    logger.debug(`Found ${claims.length} staking reward claims for user ${userId}`)
+    res.json(claims)
+  } catch (error) {
+    logger.error(`Error fetching staking reward claims: ${error}`, { userId: req.user?.id })
+    res.status(500).json({ message: "Server error" })
+  }
+})
+
 // Get staking statistics for a riff
 router.get("/stats/:riffId", async (req, res) => {
   try {
@@ -0,0 +1,82 @@
+import express from "express"
+import { getStorage } from "../services/storageService"
+import { StorageObjectNotFoundError } from "../services/storage/storageProvider"
+import { verifyObjectSignature } from "../services/storage/signedUrls"
+import logger from "../../config/logger"
+
+// Serves objects of the local and in-memory storage providers; S3 objects are served by S3 itself
+
+const router = express.Router()
+
+// Same limit as multipart riff uploads
+const MAX_OBJECT_SIZE = 25 * 1024 * 1024
+
+function signatureParams(req: express.Request) {
+  return {
+    key: req.params[0],
+    expires: Number(req.query.expires),
+    contentType: typeof req.query.contentType === "string" ? req.query.contentType : undefined,
+    isPublic: req.query.public === "1",
+    signature: typeof req.query.signature === "string" ? req.query.signature : "",
+  }
+}
+
+// Read an object: public objects freely, private ones with a signed URL
+router.get("/*", async (req, res) => {
+  const { key, expires, signature } = signatureParams(req)
+
+  try {
+    const object = await getStorage().stream(key)
+
+    if (!object.isPublic && !(signature && verifyObjectSignature({ method: "GET", key, expires }, signature))) {
+      logger.warn(`Unauthorized storage read: ${key}`, { ip: req.ip })
+      object.body.destroy()
+      return res.status(403).json({ message: "Invalid or expired signature" })
+    }
+
+    res.setHeader("Content-Type", object.contentType)
+    res.setHeader("Content-Length", object.size)
+    res.setHeader("Cache-Control", object.isPublic ? "public, max-age=3600" : "private, no-store")
+    // Helmet defaults to same-origin, which would stop the web app from embedding the audio
+    res.setHeader("Cross-Origin-Resource-Policy", "cross-origin")
+    object.body.pipe(res)
+  } catch (error) {
+    if (error instanceof StorageObjectNotFoundError) {
+      return res.status(404).json({ message: "Object not found" })
+    }
+    logger.error(`Error serving storage object: ${error}`, { key })
+    res.status(500).json({ message: "Server error" })
+  }
+})
+
+// Direct upload through a URL from `presignUpload`
+router.put("/*", express.raw({ type: () => true, limit: MAX_OBJECT_SIZE }), async (req, res) => {
+  const { key, expires, contentType, isPublic, signature } = signatureParams(req)
+
+  try {
+    const valid = verifyObjectSignature({ method: "PUT", key, expires, contentType, isPublic }, signature)
+
+    if (!valid) {
+      logger.warn(`Unauthorized storage upload: ${key}`, { ip: req.ip })
+      return res.status(403).json({ message: "Invalid or expired signature" })
+    }
+
+    if (contentType && req.headers["content-type"] !== contentType) {
+      return res.status(400).json({ message: `Content-Type must be ${contentType}` })
+    }
+
+    const body = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0)
+    await getStorage().upload(key, body, {
+      contentType: contentType || req.headers["content-type"] || "application/octet-stream",
+      isPublic,
+    })
+
+    logger.info(`Object uploaded via signed URL: ${key}`, { size: body.length })
+    res.status(200).end()
+  } catch (error) {
+    logger.error(`Error storing uploaded object: ${error}`, { key })
+    res.status(500).json({ message: "Server error" })
+  }
+})
+
+export const storageRoutes = router
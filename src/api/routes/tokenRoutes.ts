@@ -1,11 +1,27 @@
 import express from "express"
 import { PrismaClient } from "@prisma/client"
 import { authMiddleware } from "../middleware/authMiddleware"
+import {
+  getUserBalance,
+  getUserEntries,
+  InsufficientBalanceError,
+  parseAmount,
+  postTransaction,
+  postTransfer,
+  SYSTEM_ACCOUNTS,
+  userAccountCode,
+} from "../services/ledgerService"
+import { distributeUpstream } from "../services/lineageService"
+import { recordActivity } from "../services/activityService"
+import { notify } from "../services/notificationService"
 import logger from "../../config/logger"
 
 const router = express.Router()
 const prisma = new PrismaClient()
 
+// Simulated fiat -> RIFF exchange rate
+const exchangeRate = Number.parseFloat(process.env.RIFF_EXCHANGE_RATE || "23.8095")
+
 // Get token info
 router.get("/info", async (req, res) => {
   try {
@@ -32,21 +48,120 @@ router.get("/info", async (req, res) => {
   }
 })
 
-// Buy tokens (simulated)
+// Get the authenticated user's token balance
+router.get("/balance", authMiddleware, async (req, res) => {
+  try {
+    const userId = req.user.id
+    logger.info(`Fetching token balance for user ${userId}`)
+
+    const balance = await getUserBalance(userId)
+
+    logger.debug(`Token balance for user ${userId}`, { balance })
+    res.json({ balance, currency: "RIFF" })
+  } catch (error) {
+    logger.error(`Error fetching token balance: ${error}`, { userId: req.user?.id })
+    res.status(500).json({ message: "Server error" })
+  }
+})
+
+// Get the authenticated user's ledger entries
+router.get("/transactions", authMiddleware, async (req, res) => {
+  try {
+    const userId = req.user.id
+    logger.info(`Fetching token transactions for user ${userId}`)
+
+    const entries = await getUserEntries(userId)
+
+    logger.debug(`Found ${entries.length} ledger entries for user ${userId}`)
+    res.json(entries)
+  } catch (error) {
+    logger.error(`Error fetching token transactions: ${error}`, { userId: req.user?.id })
+    res.status(500).json({ message: "Server error" })
+  }
+})
+
+// Transfer tokens to another user
+router.post("/transfer", authMiddleware, async (req, res) => {
+  try {
+    const userId = req.user.id
+    const { toUserId, amount, memo } = req.body
+    logger.info(`User ${userId} transferring tokens`, { toUserId, amount })
+
+    const parsedAmount = parseAmount(amount)
+    if (parsedAmount === null) {
+      logger.warn("Invalid transfer amount", { userId, amount })
+      return res.status(400).json({ message: "Amount must be a positive number" })
+    }
+
+    if (!toUserId || toUserId === userId) {
+      logger.warn("Invalid transfer recipient", { userId, toUserId })
+      return res.status(400).json({ message: "A different recipient is required" })
+    }
+
+    const recipient = await prisma.user.findUnique({
+      where: { id: toUserId },
+    })
+
+    if (!recipient) {
+      logger.warn(`Transfer recipient not found: ${toUserId}`)
+      return res.status(404).json({ message: "Recipient not found" })
+    }
+
+    const transaction = await prisma.$transaction((tx) =>
+      postTransfer(tx, "transfer", userAccountCode(userId), userAccountCode(toUserId), parsedAmount, undefined, memo),
+    )
+
+    logger.info(`Tokens transferred successfully: ${transaction.id}`, {
+      fromUserId: userId,
+      toUserId,
+      amount: parsedAmount,
+    })
+    res.status(201).json(transaction)
+  } catch (error) {
+    if (error instanceof InsufficientBalanceError) {
+      logger.warn(`Transfer rejected: insufficient balance`, { userId: req.user?.id, amount: req.body?.amount })
+      return res.status(400).json({ message: "Insufficient balance" })
+    }
+
+    logger.error(`Error transferring tokens: ${error}`, {
+      userId: req.user?.id,
+      toUserId: req.body?.toUserId,
+      amount: req.body?.amount,
+    })
+    res.status(500).json({ message: "Server error" })
+  }
+})
+
+// Buy tokens (payment is simulated, tokens are issued from the treasury)
 router.post("/buy", authMiddleware, async (req, res) => {
   try {
     const userId = req.user.id
     const { amount, currency } = req.body
     logger.info(`User ${userId} buying tokens`, { amount, currency })
 
-    // In a real implementation, this would interact with a payment processor
-    // and blockchain to actually purchase tokens
+    const parsedAmount = parseAmount(amount)
+    if (parsedAmount === null) {
+      logger.warn("Invalid purchase amount", { userId, amount })
+      return res.status(400).json({ message: "Amount must be a positive number" })
+    }
+
+    // In a real implementation, this would interact with a payment processor first
+    const riffAmount = parsedAmount * exchangeRate
 
-    // For now, we'll just return a simulated transaction
-    const riffAmount = Number.parseFloat(amount) * 23.8095 // Simulated exchange rate
-    const transactionId = `tx_${Date.now()}`
+    const transaction = await prisma.$transaction((tx) =>
+      postTransfer(
+        tx,
+        "buy",
+        SYSTEM_ACCOUNTS.treasury,
+        userAccountCode(userId),
+        riffAmount,
+        undefined,
+        `${parsedAmount} ${currency || "USD"}`,
+      ),
+    )
+    const transactionId = transaction.id
 
-    logger.debug(`Token purchase simulation`, {
+    logger.debug(`Token purchase posted`, {
       transactionId,
       amount,
       riffAmount,
@@ -58,14 +173,15 @@ router.post("/buy", authMiddleware, async (req, res) => {
       success: true,
       transaction: {
         id: transactionId,
-        amount: Number.parseFloat(amount),
+        amount: parsedAmount,
         riffAmount,
         currency,
-        timestamp: new Date(),
+        timestamp: transaction.createdAt,
       },
+      balance: await getUserBalance(userId),
     })
 
-    logger.info(`Token purchase simulated successfully: ${transactionId}`)
+    logger.info(`Token purchase completed successfully: ${transactionId}`)
   } catch (error) {
     logger.error(`Error buying tokens: ${error}`, {
       userId: req.user?.id,
@@ -83,6 +199,12 @@ router.post("/tip", authMiddleware, async (req, res) => {
     const { riffId, amount, message } = req.body
     logger.info(`User ${userId} tipping for riff: ${riffId}`, { amount })
 
+    const parsedAmount = parseAmount(amount)
+    if (parsedAmount === null) {
+      logger.warn("Invalid tip amount", { userId, amount })
+      return res.status(400).json({ message: "Amount must be a positive number" })
+    }
+
     // Check if riff exists
     const riff = await prisma.riff.findUnique({
       where: { id: riffId },
@@ -99,14 +221,53 @@ router.post("/tip", authMiddleware, async (req, res) => {
       hasMessage: !!message,
     })
 
-    // Create tip record
-    const tip = await prisma.tip.create({
-      data: {
-        amount: Number.parseFloat(amount),
+    if (riff.userId === userId) {
+      logger.warn(`User attempted to tip own riff: ${riffId}`, { userId })
+      return res.status(400).json({ message: "You cannot tip your own riff" })
+    }
+
+    // Create tip record and move the tokens atomically
+    const tip = await prisma.$transaction(async (tx) => {
+      const tip = await tx.tip.create({
+        data: {
+          amount: parsedAmount,
+          riffId,
+          userId,
+          message,
+        },
+      })
+
+      // Remixes pass part of every tip up to the artists of the riffs they derive from
+      const upstream = await distributeUpstream(tx, {
+        source: "tip",
+        sourceId: tip.id,
         riffId,
-        userId,
-        message,
-      },
+        amount: parsedAmount,
+        currency: "RIFF",
+      })
+
+      await postTransaction(tx, {
+        type: "tip",
+        reference: tip.id,
+        legs: [
+          { accountCode: userAccountCode(userId), amount: -parsedAmount },
+          { accountCode: userAccountCode(riff.userId), amount: upstream.retained },
+          ...upstream.payouts.map((payout) => ({
+            accountCode: userAccountCode(payout.recipientId),
+            amount: payout.amount,
+          })),
+        ],
+      })
+
+      await recordActivity(tx, {
+        type: "tipReceived",
+        artistId: riff.userId,
+        riffId,
+        actorId: userId,
+        amount: parsedAmount,
+      })
+
+      return { ...tip, upstreamPayouts: upstream.payouts }
     })
 
     logger.info(`Tip created successfully: ${tip.id}`, {
@@ -115,8 +276,21 @@ router.post("/tip", authMiddleware, async (req, res) => {
       riffId,
       amount: tip.amount,
     })
+
+    notify({
+      userId: riff.userId,
+      type: "tipReceived",
+      title: `New tip on "${riff.title}"`,
+      body: `${req.user.name || "A fan"} tipped ${tip.amount} RIFF on "${riff.title}"${message ? `: ${message}` : ""}`,
+      data: { riffId, tipId: tip.id },
+    })
     res.status(201).json(tip)
   } catch (error) {
+    if (error instanceof InsufficientBalanceError) {
+      logger.warn(`Tip rejected: insufficient balance`, { userId: req.user?.id, amount: req.body?.amount })
+      return res.status(400).json({ message: "Insufficient balance" })
+    }
+
     logger.error(`Error tipping artist: ${error}`, {
       userId: req.user?.id,
       riffId: req.body?.riffId,
@@ -0,0 +1,355 @@
+import express from "express"
+import { PrismaClient } from "@prisma/client"
+import multer from "multer"
+import path from "path"
+import fs from "fs"
+import { authMiddleware } from "../middleware/authMiddleware"
+import { getStorage, safeKeyFilename } from "../services/storageService"
+import { deleteObjects } from "../services/storageGcService"
+import {
+  getUnlockableAccess,
+  isUnlockableEnabled,
+  isUnlockableType,
+  logUnlockableAccess,
+  signUnlockableDownload,
+  UNLOCKABLE_FLAGS,
+  UNLOCKABLE_TYPES,
+} from "../services/unlockableService"
+import { detectFileType, SIGNATURE_BYTES } from "../utils/fileSignatures"
+import { pageArgs, parsePageParams, toPage } from "../utils/pagination"
+import { publicUserSelect } from "../utils/projections"
+import logger from "../../config/logger"
+
+// Mounted under /api/nfts next to nftRoutes
+const router = express.Router()
+const prisma = new PrismaClient()
+
+// Stems and project files are larger than riff uploads
+const MAX_UNLOCKABLE_BYTES = 200 * 1024 * 1024
+
+const upload = multer({
+  storage: multer.diskStorage({
+    destination: (req, file, cb) => {
+      const uploadDir = path.join(__dirname, "../../../uploads")
+      if (!fs.existsSync(uploadDir)) {
+        fs.mkdirSync(uploadDir, { recursive: true })
+      }
+      cb(null, uploadDir)
+    },
+    filename: (req, file, cb) => {
+      const uniqueSuffix = Date.now() + "-" + Math.round(Math.random() * 1e9)
+      cb(null, uniqueSuffix + path.extname(file.originalname))
+    },
+  }),
+  limits: { fileSize: MAX_UNLOCKABLE_BYTES },
+})
+
+// Everything but the storage key, which is only handed out as a signed URL
+const unlockableSelect = {
+  id: true,
+  nftId: true,
+  type: true,
+  title: true,
+  body: true,
+  filename: true,
+  contentType: true,
+  size: true,
+  createdAt: true,
+  updatedAt: true,
+}
+
+function findNFT(id: string) {
+  return prisma.nFT.findUnique({
+    where: { id },
+    include: { riff: true },
+  })
+}
+
+// Content type of an uploaded file from its signature; the client's declared type is not trusted
+async function detectContentType(filePath: string) {
+  const handle = await fs.promises.open(filePath, "r")
+  try {
+    const { buffer, bytesRead } = await handle.read(Buffer.alloc(SIGNATURE_BYTES), 0, SIGNATURE_BYTES, 0)
+    return detectFileType(buffer.subarray(0, bytesRead))?.mimeType ?? "application/octet-stream"
+  } finally {
+    await handle.close()
+  }
+}
+
+// List the unlockables of an NFT (artist and current holder)
+router.get("/:id/unlockables", authMiddleware, async (req, res) => {
+  try {
+    const { id } = req.params
+    const userId = req.user.id
+    const page = parsePageParams(req.query)
+    logger.info(`Fetching unlockables for NFT: ${id}`, { userId, ...page })
+
+    const nft = await findNFT(id)
+
+    if (!nft) {
+      logger.warn(`NFT not found: ${id}`)
+      return res.status(404).json({ message: "NFT not found" })
+    }
+
+    const access = await getUnlockableAccess(nft, userId)
+
+    if (!access) {
+      logger.warn(`Unauthorized unlockables access for NFT: ${id}`, {
+        requestUserId: userId,
+        ownerUserId: nft.ownerId,
+      })
+      return res.status(403).json({ message: "Only the holder of this NFT can access its unlockables" })
+    }
+
+    // Holders only see the types the NFT currently unlocks; the artist sees everything attached
+    const enabledTypes = UNLOCKABLE_TYPES.filter((type) => nft[UNLOCKABLE_FLAGS[type]])
+    const unlockables = await prisma.unlockable.findMany({
+      where: {
+        nftId: id,
+        ...(access.role === "artist" ? {} : { type: { in: enabledTypes } }),
+      },
+      orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+      ...pageArgs(page),
+      select: unlockableSelect,
+    })
+
+    await logUnlockableAccess(id, userId, "list", access, { ipAddress: req.ip })
+
+    const { items, nextCursor } = toPage(unlockables, page)
+
+    logger.debug(`Found ${items.length} unlockables`, { nftId: id, role: access.role, nextCursor })
+    res.json({ items, nextCursor })
+  } catch (error) {
+    logger.error(`Error fetching unlockables: ${error}`, { id: req.params.id, userId: req.user?.id })
+    res.status(500).json({ message: "Server error" })
+  }
+})
+
+// Get the access log of an NFT's unlockables (artist only)
+router.get("/:id/unlockables/access-log", authMiddleware, async (req, res) => {
+  try {
+    const { id } = req.params
+    const userId = req.user.id
+    const page = parsePageParams(req.query)
+    logger.info(`Fetching unlockable access log for NFT: ${id}`, { userId, ...page })
+
+    const nft = await findNFT(id)
+
+    if (!nft) {
+      logger.warn(`NFT not found: ${id}`)
+      return res.status(404).json({ message: "NFT not found" })
+    }
+
+    if (nft.riff.userId !== userId) {
+      logger.warn(`Unauthorized unlockable access log request: ${id}`, {
+        requestUserId: userId,
+        ownerUserId: nft.riff.userId,
+      })
+      return res.status(403).json({ message: "Not authorized to view this access log" })
+    }
+
+    const entries = await prisma.unlockableAccessLog.findMany({
+      where: { nftId: id },
+      orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+      ...pageArgs(page),
+      include: {
+        user: { select: publicUserSelect },
+        unlockable: { select: { id: true, type: true, title: true } },
+      },
+    })
+
+    const { items, nextCursor } = toPage(entries, page)
+
+    logger.debug(`Found ${items.length} unlockable access log entries`, { nftId: id, nextCursor })
+    res.json({ items, nextCursor })
+  } catch (error) {
+    logger.error(`Error fetching unlockable access log: ${error}`, { id: req.params.id, userId: req.user?.id })
+    res.status(500).json({ message: "Server error" })
+  }
+})
+
+// Get a short-lived download URL for an unlockable's file
+router.get("/:id/unlockables/:unlockableId/download", authMiddleware, async (req, res) => {
+  try {
+    const { id, unlockableId } = req.params
+    const userId = req.user.id
+    logger.info(`Downloading unlockable ${unlockableId} of NFT: ${id}`, { userId })
+
+    const nft = await findNFT(id)
+
+    if (!nft) {
+      logger.warn(`NFT not found: ${id}`)
+      return res.status(404).json({ message: "NFT not found" })
+    }
+
+    const access = await getUnlockableAccess(nft, userId)
+
+    if (!access) {
+      logger.warn(`Unauthorized unlockable download: ${unlockableId}`, {
+        requestUserId: userId,
+        ownerUserId: nft.ownerId,
+      })
+      return res.status(403).json({ message: "Only the holder of this NFT can access its unlockables" })
+    }
+
+    const unlockable = await prisma.unlockable.findUnique({
+      where: { id: unlockableId },
+    })
+
+    // Unlockables whose flag was turned off look the same to holders as missing ones
+    if (!unlockable || unlockable.nftId !== id || (access.role !== "artist" && !isUnlockableEnabled(nft, unlockable))) {
+      logger.warn(`Unlockable not found: ${unlockableId}`, { nftId: id })
+      return res.status(404).json({ message: "Unlockable not found" })
+    }
+
+    const signed = await signUnlockableDownload(unlockable)
+
+    if (!signed) {
+      return res.status(404).json({ message: "Unlockable has no file" })
+    }
+
+    await logUnlockableAccess(id, userId, "download", access, { unlockableId, ipAddress: req.ip })
+
+    res.json({ ...signed, filename: unlockable.filename, contentType: unlockable.contentType })
+  } catch (error) {
+    logger.error(`Error downloading unlockable: ${error}`, {
+      id: req.params.id,
+      unlockableId: req.params.unlockableId,
+      userId: req.user?.id,
+    })
+    res.status(500).json({ message: "Server error" })
+  }
+})
+
+// Attach an unlockable to an NFT (artist only)
+router.post("/:id/unlockables", authMiddleware, upload.single("file"), async (req, res) => {
+  let storedKey: string | null = null
+
+  try {
+    const { id } = req.params
+    const userId = req.user.id
+    const { type, title, body } = req.body
+    const file = req.file
+    logger.info(`Adding unlockable to NFT: ${id}`, { userId, type, hasFile: !!file })
+
+    if (!isUnlockableType(type)) {
+      return res.status(400).json({ message: `type must be one of ${UNLOCKABLE_TYPES.join(", ")}` })
+    }
+
+    if (typeof title !== "string" || title.trim() === "") {
+      return res.status(400).json({ message: "title is required" })
+    }
+
+    // Posts are text with an optional attachment; the other types are files
+    if (type === "backstagePost" ? typeof body !== "string" || body.trim() === "" : !file) {
+      return res.status(400).json({ message: type === "backstagePost" ? "body is required" : "file is required" })
+    }
+
+    const nft = await findNFT(id)
+
+    if (!nft) {
+      logger.warn(`NFT not found: ${id}`)
+      return res.status(404).json({ message: "NFT not found" })
+    }
+
+    if (nft.riff.userId !== userId) {
+      logger.warn(`Unauthorized unlockable upload for NFT: ${id}`, {
+        requestUserId: userId,
+        ownerUserId: nft.riff.userId,
+      })
+      return res.status(403).json({ message: "Not authorized to add unlockables to this NFT" })
+    }
+
+    if (!nft[UNLOCKABLE_FLAGS[type]]) {
+      return res.status(400).json({ message: `Enable ${UNLOCKABLE_FLAGS[type]} on this NFT first` })
+    }
+
+    let stored: { key: string; contentType: string } | null = null
+    if (file) {
+      const key = `unlockables/${id}/${Date.now()}-${safeKeyFilename(file.originalname)}`
+      const contentType = await detectContentType(file.path)
+
+      // Stream from the temp file: unlockables can be up to MAX_UNLOCKABLE_BYTES
+      await getStorage().upload(key, fs.createReadStream(file.path), { contentType, isPublic: false })
+      storedKey = key
+      stored = { key, contentType }
+    }
+
+    const unlockable = await prisma.unlockable.create({
+      data: {
+        nftId: id,
+        type,
+        title: title.trim(),
+        body: typeof body === "string" && body.trim() !== "" ? body : null,
+        fileKey: stored?.key,
+        filename: file?.originalname,
+        contentType: stored?.contentType,
+        size: file?.size,
+      },
+      select: unlockableSelect,
+    })
+
+    logger.info(`Unlockable added: ${unlockable.id}`, { nftId: id, type })
+    res.status(201).json(unlockable)
+  } catch (error) {
+    logger.error(`Error adding unlockable: ${error}`, { id: req.params.id, userId: req.user?.id })
+    if (storedKey) await deleteObjects([storedKey], { nftId: req.params.id })
+    res.status(500).json({ message: "Server error" })
+  } finally {
+    if (req.file) await fs.promises.rm(req.file.path, { force: true })
+  }
+})
+
+// Delete an unlockable and its file (artist only)
+router.delete("/:id/unlockables/:unlockableId", authMiddleware, async (req, res) => {
+  try {
+    const { id, unlockableId } = req.params
+    const userId = req.user.id
+    logger.info(`Deleting unlockable ${unlockableId} of NFT: ${id}`, { userId })
+
+    const nft = await findNFT(id)
+
+    if (!nft) {
+      logger.warn(`NFT not found: ${id}`)
+      return res.status(404).json({ message: "NFT not found" })
+    }
+
+    if (nft.riff.userId !== userId) {
+      logger.warn(`Unauthorized unlockable deletion: ${unlockableId}`, {
+        requestUserId: userId,
+        ownerUserId: nft.riff.userId,
+      })
+      return res.status(403).json({ message: "Not authorized to delete this unlockable" })
+    }
+
+    const unlockable = await prisma.unlockable.findUnique({
+      where: { id: unlockableId },
+    })
+
+    if (!unlockable || unlockable.nftId !== id) {
+      logger.warn(`Unlockable not found: ${unlockableId}`, { nftId: id })
+      return res.status(404).json({ message: "Unlockable not found" })
+    }
+
+    // Access log entries are kept; their reference is cleared
+    await prisma.unlockable.delete({
+      where: { id: unlockableId },
+    })
+
+    if (unlockable.fileKey) {
+      await deleteObjects([unlockable.fileKey], { unlockableId })
+    }
+
+    logger.info(`Unlockable deleted: ${unlockableId}`, { nftId: id })
+    res.json({ message: "Unlockable deleted successfully" })
+  } catch (error) {
+    logger.error(`Error deleting unlockable: ${error}`, {
+      id: req.params.id,
+      unlockableId: req.params.unlockableId,
+      userId: req.user?.id,
+    })
+    res.status(500).json({ message: "Server error" })
+  }
+})
+
+export const unlockableRoutes = router
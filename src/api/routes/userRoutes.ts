@@ -1,6 +1,12 @@
 import express from "express"
 import { PrismaClient } from "@prisma/client"
 import { authMiddleware } from "../middleware/authMiddleware"
+import { sanitizeUser } from "../services/authService"
+import { verifySiweMessage } from "../services/siweService"
+import { withRiffStats } from "../services/riffStatsService"
+import { getArtistStats } from "../services/userProfileService"
+import { pageArgs, PageParams, parseIncludes, parsePageParams, toPage } from "../utils/pagination"
+import { publicUserSelect } from "../utils/projections"
 import logger from "../../config/logger"
 
 const router = express.Router()
@@ -37,7 +43,7 @@ router.get("/profile", authMiddleware, async (req, res) => {
     }
 
     logger.debug(`User profile fetched successfully: ${userId}`)
-    res.json(user)
+    res.json(sanitizeUser(user))
   } catch (error) {
     logger.error(`Error fetching user profile: ${error}`, { userId: req.user?.id })
     res.status(500).json({ message: "Server error" })
@@ -65,24 +71,38 @@ router.put("/profile", authMiddleware, async (req, res) => {
     })
 
     logger.info(`Profile updated successfully for user ${userId}`)
-    res.json(updatedUser)
+    res.json(sanitizeUser(updatedUser))
   } catch (error) {
     logger.error(`Error updating user profile: ${error}`, { userId: req.user?.id })
     res.status(500).json({ message: "Server error" })
   }
 })
 
-// Connect wallet to user
+// Connect wallet to user, proven by a signed Sign-In with Ethereum message
 router.post("/connect-wallet", authMiddleware, async (req, res) => {
   try {
     const userId = req.user.id
-    const { walletAddress } = req.body
+    const { message, signature } = req.body
 
-    logger.info(`Connecting wallet for user ${userId}`, { walletAddress })
+    logger.info(`Connecting wallet for user ${userId}`)
+
+    if (!message || !signature) {
+      logger.warn("Wallet connection failed: no signed message", { userId })
+      return res.status(400).json({ message: "Signed message and signature required" })
+    }
+
+    const verification = await verifySiweMessage(message, signature)
+
+    if (!verification.success) {
+      logger.warn(`Wallet connection failed: ${verification.reason}`, { userId })
+      return res.status(401).json({ message: verification.reason })
+    }
+
+    const walletAddress = verification.address
 
     // Check if wallet already exists
-    const existingWallet = await prisma.wallet.findUnique({
-      where: { address: walletAddress },
+    const existingWallet = await prisma.wallet.findFirst({
+      where: { address: { equals: walletAddress, mode: "insensitive" } },
     })
 
     if (existingWallet) {
@@ -103,7 +123,6 @@ router.post("/connect-wallet", authMiddleware, async (req, res) => {
   } catch (error) {
     logger.error(`Error connecting wallet: ${error}`, {
       userId: req.user?.id,
-      walletAddress: req.body?.walletAddress,
     })
     res.status(500).json({ message: "Server error" })
   }
@@ -113,20 +132,26 @@ router.post("/connect-wallet", authMiddleware, async (req, res) => {
 router.get("/riffs", authMiddleware, async (req, res) => {
   try {
     const userId = req.user.id
-    logger.info(`Fetching riffs for user ${userId}`)
+    const page = parsePageParams(req.query)
+    const includes = parseIncludes(req.query, ["tips", "stakingRecords"] as const)
+    logger.info(`Fetching riffs for user ${userId}`, page)
 
     const riffs = await prisma.riff.findMany({
       where: { userId },
+      orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+      ...pageArgs(page),
       include: {
         nft: true,
-        tips: true,
-        stakingRecords: true,
+        tips: includes.has("tips"),
+        stakingRecords: includes.has("stakingRecords"),
         collection: true,
       },
     })
 
-    logger.debug(`Found ${riffs.length} riffs for user ${userId}`)
-    res.json(riffs)
+    const { items, nextCursor } = toPage(riffs, page)
+
+    logger.debug(`Found ${items.length} riffs for user ${userId}`, { nextCursor })
+    res.json({ items: await withRiffStats(items), nextCursor })
   } catch (error) {
     logger.error(`Error fetching user riffs: ${error}`, { userId: req.user?.id })
     res.status(500).json({ message: "Server error" })
@@ -137,17 +162,24 @@ router.get("/riffs", authMiddleware, async (req, res) => {
 router.get("/collections", authMiddleware, async (req, res) => {
   try {
     const userId = req.user.id
-    logger.info(`Fetching collections for user ${userId}`)
+    const page = parsePageParams(req.query)
+    const includes = parseIncludes(req.query, ["riffs"] as const)
+    logger.info(`Fetching collections for user ${userId}`, page)
 
     const collections = await prisma.collection.findMany({
       where: { userId },
+      orderBy: [{ position: "asc" }, { createdAt: "desc" }, { id: "desc" }],
+      ...pageArgs(page),
       include: {
-        riffs: true,
+        riffs: includes.has("riffs"),
+        _count: { select: { riffs: true } },
       },
     })
 
-    logger.debug(`Found ${collections.length} collections for user ${userId}`)
-    res.json(collections)
+    const { items, nextCursor } = toPage(collections, page)
+
+    logger.debug(`Found ${items.length} collections for user ${userId}`, { nextCursor })
+    res.json({ items, nextCursor })
   } catch (error) {
     logger.error(`Error fetching user collections: ${error}`, { userId: req.user?.id })
     res.status(500).json({ message: "Server error" })
@@ -158,26 +190,279 @@ router.get("/collections", authMiddleware, async (req, res) => {
 router.get("/staking", authMiddleware, async (req, res) => {
   try {
     const userId = req.user.id
-    logger.info(`Fetching staking records for user ${userId}`)
+    const page = parsePageParams(req.query)
+    logger.info(`Fetching staking records for user ${userId}`, page)
 
     const stakingRecords = await prisma.staking.findMany({
       where: { userId },
+      orderBy: [{ stakedAt: "desc" }, { id: "desc" }],
+      ...pageArgs(page),
       include: {
         riff: {
           include: {
-            user: true,
+            user: { select: publicUserSelect },
             nft: true,
           },
         },
       },
     })
 
-    logger.debug(`Found ${stakingRecords.length} staking records for user ${userId}`)
-    res.json(stakingRecords)
+    const { items, nextCursor } = toPage(stakingRecords, page)
+
+    logger.debug(`Found ${items.length} staking records for user ${userId}`, { nextCursor })
+    res.json({ items, nextCursor })
   } catch (error) {
     logger.error(`Error fetching staking records: ${error}`, { userId: req.user?.id })
     res.status(500).json({ message: "Server error" })
   }
 })
 
+// Get user's royalty payouts
+router.get("/royalties", authMiddleware, async (req, res) => {
+  try {
+    const userId = req.user.id
+    logger.info(`Fetching royalty payouts for user ${userId}`)
+
+    const payouts = await prisma.royaltyPayout.findMany({
+      where: { recipientId: userId },
+      orderBy: { createdAt: "desc" },
+      include: {
+        distribution: true,
+      },
+    })
+
+    const totalEarned = payouts.reduce((sum, payout) => sum + payout.amount, 0)
+
+    logger.debug(`Found ${payouts.length} royalty payouts for user ${userId}`)
+    res.json({ totalEarned, payouts })
+  } catch (error) {
+    logger.error(`Error fetching royalty payouts: ${error}`, { userId: req.user?.id })
+    res.status(500).json({ message: "Server error" })
+  }
+})
+
+// Follow an artist
+router.post("/:id/follow", authMiddleware, async (req, res) => {
+  try {
+    const { id } = req.params
+    const userId = req.user.id
+    logger.info(`User ${userId} following user: ${id}`)
+
+    if (id === userId) {
+      return res.status(400).json({ message: "You cannot follow yourself" })
+    }
+
+    const artist = await prisma.user.findUnique({
+      where: { id },
+      select: { id: true },
+    })
+
+    if (!artist) {
+      logger.warn(`User not found for follow: ${id}`)
+      return res.status(404).json({ message: "User not found" })
+    }
+
+    const existing = await prisma.userFollow.findUnique({
+      where: { followerId_followingId: { followerId: userId, followingId: id } },
+    })
+
+    if (existing) {
+      return res.json(existing)
+    }
+
+    const follow = await prisma.userFollow.create({
+      data: { followerId: userId, followingId: id },
+    })
+
+    logger.info(`User followed: ${id}`, { followerId: userId })
+    res.status(201).json(follow)
+  } catch (error) {
+    logger.error(`Error following user: ${error}`, { id: req.params.id, userId: req.user?.id })
+    res.status(500).json({ message: "Server error" })
+  }
+})
+
+// Unfollow an artist
+router.delete("/:id/follow", authMiddleware, async (req, res) => {
+  try {
+    const { id } = req.params
+    const userId = req.user.id
+    logger.info(`User ${userId} unfollowing user: ${id}`)
+
+    const { count } = await prisma.userFollow.deleteMany({
+      where: { followerId: userId, followingId: id },
+    })
+
+    if (count === 0) {
+      return res.status(404).json({ message: "Not following this user" })
+    }
+
+    res.json({ message: "Unfollowed successfully" })
+  } catch (error) {
+    logger.error(`Error unfollowing user: ${error}`, { id: req.params.id, userId: req.user?.id })
+    res.status(500).json({ message: "Server error" })
+  }
+})
+
+// Get the followers of a user, most recent first
+router.get("/:id/followers", async (req, res) => {
+  try {
+    const { id } = req.params
+    const page = parsePageParams(req.query)
+    logger.info(`Fetching followers of user: ${id}`, page)
+
+    const follows = await prisma.userFollow.findMany({
+      where: { followingId: id },
+      orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+      ...pageArgs(page),
+      include: { follower: { select: publicUserSelect } },
+    })
+
+    const { items, nextCursor } = toPage(follows, page)
+
+    logger.debug(`Found ${items.length} followers of user ${id}`, { nextCursor })
+    res.json({ items, nextCursor })
+  } catch (error) {
+    logger.error(`Error fetching followers: ${error}`, { id: req.params.id })
+    res.status(500).json({ message: "Server error" })
+  }
+})
+
+// Get the artists a user follows, most recent first
+router.get("/:id/following", async (req, res) => {
+  try {
+    const { id } = req.params
+    const page = parsePageParams(req.query)
+    logger.info(`Fetching artists followed by user: ${id}`, page)
+
+    const follows = await prisma.userFollow.findMany({
+      where: { followerId: id },
+      orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+      ...pageArgs(page),
+      include: { following: { select: publicUserSelect } },
+    })
+
+    const { items, nextCursor } = toPage(follows, page)
+
+    logger.debug(`Found ${items.length} artists followed by user ${id}`, { nextCursor })
+    res.json({ items, nextCursor })
+  } catch (error) {
+    logger.error(`Error fetching followed artists: ${error}`, { id: req.params.id })
+    res.status(500).json({ message: "Server error" })
+  }
+})
+
+// Get the riffs a user follows, most recent first
+router.get("/:id/following/riffs", async (req, res) => {
+  try {
+    const { id } = req.params
+    const page = parsePageParams(req.query)
+    logger.info(`Fetching riffs followed by user: ${id}`, page)
+
+    const follows = await prisma.riffFollow.findMany({
+      where: { userId: id },
+      orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+      ...pageArgs(page),
+      include: {
+        riff: {
+          include: {
+            user: { select: publicUserSelect },
+            nft: true,
+          },
+        },
+      },
+    })
+
+    const { items, nextCursor } = toPage(follows, page)
+
+    logger.debug(`Found ${items.length} riffs followed by user ${id}`, { nextCursor })
+    res.json({ items, nextCursor })
+  } catch (error) {
+    logger.error(`Error fetching followed riffs: ${error}`, { id: req.params.id })
+    res.status(500).json({ message: "Server error" })
+  }
+})
+
+/**
+ * Assemble a public artist profile: the whitelisted user fields, stats, collections and a page of riffs
+ * @param user Public projection of the artist
+ * @param page Page window for the riffs
+ * @returns Profile response body
+ */
+async function buildPublicProfile<T extends { id: string }>(user: T, page: PageParams) {
+  const [riffs, collections, stats] = await Promise.all([
+    prisma.riff.findMany({
+      where: { userId: user.id },
+      orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+      ...pageArgs(page),
+      include: {
+        nft: true,
+        collection: true,
+      },
+    }),
+    prisma.collection.findMany({
+      where: { userId: user.id },
+      orderBy: [{ position: "asc" }, { createdAt: "desc" }, { id: "desc" }],
+      include: {
+        _count: { select: { riffs: true } },
+      },
+    }),
+    getArtistStats(user.id),
+  ])
+
+  const { items, nextCursor } = toPage(riffs, page)
+
+  return { ...user, stats, collections, riffs: { items: await withRiffStats(items), nextCursor } }
+}
+
+// Get a public artist profile by ENS name
+router.get("/by-ens/:ensName", async (req, res) => {
+  try {
+    const { ensName } = req.params
+    const page = parsePageParams(req.query)
+    logger.info(`Fetching public profile by ENS name: ${ensName}`, page)
+
+    const user = await prisma.user.findFirst({
+      where: { ensName: { equals: ensName, mode: "insensitive" } },
+      orderBy: { createdAt: "asc" },
+      select: publicUserSelect,
+    })
+
+    if (!user) {
+      logger.warn(`User not found for ENS name: ${ensName}`)
+      return res.status(404).json({ message: "User not found" })
+    }
+
+    res.json(await buildPublicProfile(user, page))
+  } catch (error) {
+    logger.error(`Error fetching public profile by ENS name: ${error}`, { ensName: req.params.ensName })
+    res.status(500).json({ message: "Server error" })
+  }
+})
+
+// Get a public artist profile. Registered last so it doesn't shadow the routes above
+router.get("/:id", async (req, res) => {
+  try {
+    const { id } = req.params
+    const page = parsePageParams(req.query)
+    logger.info(`Fetching public profile: ${id}`, page)
+
+    const user = await prisma.user.findUnique({
+      where: { id },
+      select: publicUserSelect,
+    })
+
+    if (!user) {
+      logger.warn(`User not found: ${id}`)
+      return res.status(404).json({ message: "User not found" })
+    }
+
+    logger.debug(`Public profile found: ${id}`)
+    res.json(await buildPublicProfile(user, page))
+  } catch (error) {
+    logger.error(`Error fetching public profile: ${error}`, { id: req.params.id })
+    res.status(500).json({ message: "Server error" })
+  }
+})
+
 export const userRoutes = router
@@ -0,0 +1,152 @@
+import { analyzeAudio, AudioAnalysisError, createClip, createPreviewClip } from "../audioAnalysisService"
+
+// 16-bit PCM WAV with a 440 Hz tone
+function wav(seconds: number, sampleRate = 8000, channels = 1) {
+  const frames = Math.round(seconds * sampleRate)
+  const data = Buffer.alloc(frames * channels * 2)
+  for (let frame = 0; frame < frames; frame++) {
+    const sample = Math.round(Math.sin((2 * Math.PI * 440 * frame) / sampleRate) * 32767)
+    for (let channel = 0; channel < channels; channel++) {
+      data.writeInt16LE(sample, (frame * channels + channel) * 2)
+    }
+  }
+
+  const header = Buffer.alloc(44)
+  header.write("RIFF", 0, "ascii")
+  header.writeUInt32LE(36 + data.length, 4)
+  header.write("WAVE", 8, "ascii")
+  header.write("fmt ", 12, "ascii")
+  header.writeUInt32LE(16, 16)
+  header.writeUInt16LE(1, 20)
+  header.writeUInt16LE(channels, 22)
+  header.writeUInt32LE(sampleRate, 24)
+  header.writeUInt32LE(sampleRate * channels * 2, 28)
+  header.writeUInt16LE(channels * 2, 32)
+  header.writeUInt16LE(16, 34)
+  header.write("data", 36, "ascii")
+  header.writeUInt32LE(data.length, 40)
+
+  return Buffer.concat([header, data])
+}
+
+// MPEG-1 Layer III, 128 kbps, 44.1 kHz, mono: 417-byte frames of 1152 samples
+const MP3_FRAME_LENGTH = 417
+
+function mp3(frameCount: number, id3TagSize = 0) {
+  const frame = Buffer.alloc(MP3_FRAME_LENGTH)
+  frame.set([0xff, 0xfb, 0x90, 0xc0])
+
+  const tag = id3TagSize > 0 ? Buffer.alloc(10 + id3TagSize) : Buffer.alloc(0)
+  if (id3TagSize > 0) {
+    tag.write("ID3", 0, "ascii")
+    tag.set([4, 0, 0, 0, 0, 0, id3TagSize], 3)
+  }
+
+  return Buffer.concat([tag, ...Array.from({ length: frameCount }, () => frame)])
+}
+
+// AAC ADTS stream: same 12-bit sync word as MPEG audio, but layer bits 00
+function adts(frameCount: number) {
+  const frameLength = 200
+  const frame = Buffer.alloc(frameLength)
+  Buffer.from([0xff, 0xf1, 0x50, 0x80, frameLength >> 3, ((frameLength & 0x07) << 5) | 0x1f, 0xfc]).copy(frame)
+  return Buffer.concat(Array.from({ length: frameCount }, () => frame))
+}
+
+describe("analyzeAudio", () => {
+  it("measures a PCM WAV file", () => {
+    const analysis = analyzeAudio(wav(2, 8000, 2))
+
+    expect(analysis).toMatchObject({
+      format: "wav",
+      duration: 2,
+      sampleRate: 8000,
+      channels: 2,
+      bitrate: 256000,
+      bpm: null,
+    })
+    expect(analysis?.waveformPeaks).toHaveLength(200)
+    expect(Math.max(...analysis!.waveformPeaks)).toBe(1)
+  })
+
+  it("rejects a WAV file whose data chunk is cut short", () => {
+    const file = wav(1)
+
+    expect(() => analyzeAudio(file.subarray(0, file.length - 100))).toThrow(AudioAnalysisError)
+  })
+
+  it("rejects WAV encodings it cannot read", () => {
+    const file = wav(1)
+    file.writeUInt16LE(2, 20)
+
+    expect(() => analyzeAudio(file)).toThrow("Unsupported WAV encoding")
+  })
+
+  it("measures an MP3 stream from its frame headers", () => {
+    const analysis = analyzeAudio(mp3(100))
+
+    expect(analysis).toMatchObject({ format: "mp3", sampleRate: 44100, channels: 1, bpm: null })
+    expect(analysis?.duration).toBeCloseTo((100 * 1152) / 44100, 6)
+    expect(analysis?.bitrate).toBe(127706)
+  })
+
+  it("skips a leading ID3v2 tag", () => {
+    expect(analyzeAudio(mp3(100, 20))?.duration).toBeCloseTo((100 * 1152) / 44100, 6)
+  })
+
+  it("rejects an MP3 file whose last frame is cut short", () => {
+    const file = mp3(10)
+
+    expect(() => analyzeAudio(file.subarray(0, file.length - 100))).toThrow("MP3 file is truncated")
+  })
+
+  it("returns null for other formats", () => {
+    expect(analyzeAudio(Buffer.from("fLaC" + "\0".repeat(60), "ascii"))).toBeNull()
+  })
+
+  it("skips AAC ADTS streams rather than reading them as MP3", () => {
+    expect(analyzeAudio(adts(50))).toBeNull()
+    expect(createClip(adts(50), 0, 1)).toBeNull()
+  })
+})
+
+describe("createClip", () => {
+  it("cuts whole WAV frames and rewrites the chunk sizes", () => {
+    const clip = createClip(wav(2), 0.5, 1)!
+
+    expect(clip.length).toBe(44 + 8000 * 2)
+    expect(clip.readUInt32LE(4)).toBe(clip.length - 8)
+    expect(clip.readUInt32LE(40)).toBe(8000 * 2)
+    expect(analyzeAudio(clip)?.duration).toBe(1)
+  })
+
+  it("stops a WAV clip at the end of the audio", () => {
+    expect(analyzeAudio(createClip(wav(2), 1.5, 5)!)?.duration).toBe(0.5)
+  })
+
+  it("cuts whole MP3 frames covering the requested length", () => {
+    const clip = createClip(mp3(100), 0, 1)!
+
+    // 39 frames of 1152 samples are the first to cover one second at 44.1 kHz
+    expect(clip.length).toBe(39 * MP3_FRAME_LENGTH)
+    expect(analyzeAudio(clip)?.duration).toBeCloseTo((39 * 1152) / 44100, 6)
+  })
+})
+
+describe("createPreviewClip", () => {
+  it("covers half of a short riff", () => {
+    const file = wav(4)
+    const preview = createPreviewClip(file, analyzeAudio(file)!)
+
+    expect(preview).toMatchObject({ contentType: "audio/wav", duration: 2 })
+    expect(analyzeAudio(preview!.body)?.duration).toBe(2)
+  })
+
+  it("is capped at the preview length for long riffs", () => {
+    const file = mp3(3000)
+    const preview = createPreviewClip(file, analyzeAudio(file)!)
+
+    expect(preview).toMatchObject({ contentType: "audio/mpeg", duration: 30 })
+    expect(analyzeAudio(preview!.body)!.duration).toBeLessThan(30.1)
+  })
+})
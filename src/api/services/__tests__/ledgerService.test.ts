@@ -0,0 +1,161 @@
+import type { Prisma } from "@prisma/client"
+import { asTransactionClient, createPrismaMock } from "../../../test/prismaMock"
+import {
+  InsufficientBalanceError,
+  parseAmount,
+  postTransaction,
+  postTransfer,
+  SYSTEM_ACCOUNTS,
+  userAccountCode,
+} from "../ledgerService"
+
+interface FakeAccount {
+  id: string
+  code: string
+  balance: number
+  allowNegative: boolean
+}
+
+// Prisma accepts a bare number or an operation object for a float field; the service only ever increments
+function incrementOf(update: number | Prisma.FloatFieldUpdateOperationsInput | undefined) {
+  return typeof update === "object" ? update.increment ?? 0 : 0
+}
+
+// In-memory stand-in for the ledger tables, enforcing the same guarded debit as the database
+function fakeLedger(balances: Record<string, number> = {}) {
+  const accounts = new Map<string, FakeAccount>()
+  const byId = (id: unknown) => [...accounts.values()].find((account) => account.id === id)!
+
+  const tx = createPrismaMock()
+  tx.ledgerAccount.upsert.mockImplementation(async ({ where, create }) => {
+    const code = where.code!
+    if (!accounts.has(code)) {
+      accounts.set(code, {
+        id: `account-${accounts.size + 1}`,
+        code: create.code,
+        balance: balances[code] ?? 0,
+        allowNegative: create.allowNegative ?? false,
+      })
+    }
+    return accounts.get(code)
+  })
+  tx.ledgerAccount.updateMany.mockImplementation(async (args) => {
+    const account = byId(args.where?.id)
+    const floor = args.where?.balance
+    if (typeof floor === "object" && floor.gte !== undefined && account.balance < Number(floor.gte)) {
+      return { count: 0 }
+    }
+    account.balance += incrementOf(args.data.balance)
+    return { count: 1 }
+  })
+  tx.ledgerAccount.update.mockImplementation(async ({ where, data }) => {
+    const account = byId(where.id)
+    account.balance += incrementOf(data.balance)
+    return account
+  })
+  tx.ledgerTransaction.create.mockImplementation(async ({ data }) => ({
+    id: "transaction-1",
+    ...data,
+    entries: data.entries?.create,
+  }))
+
+  return {
+    tx,
+    client: asTransactionClient(tx),
+    balance: (code: string) => accounts.get(code)?.balance ?? balances[code] ?? 0,
+  }
+}
+
+describe("parseAmount", () => {
+  it("accepts positive numbers and numeric strings", () => {
+    expect(parseAmount(5)).toBe(5)
+    expect(parseAmount("1.5")).toBe(1.5)
+  })
+
+  it("rounds to 8 decimals", () => {
+    expect(parseAmount("1.123456789")).toBe(1.12345679)
+  })
+
+  it("rejects zero, negative and non-numeric amounts", () => {
+    expect(parseAmount(0)).toBeNull()
+    expect(parseAmount(-1)).toBeNull()
+    expect(parseAmount("abc")).toBeNull()
+    expect(parseAmount(undefined)).toBeNull()
+  })
+})
+
+describe("postTransaction", () => {
+  const alice = userAccountCode("alice")
+  const bob = userAccountCode("bob")
+
+  it("moves funds between accounts and records one entry per leg", async () => {
+    const ledger = fakeLedger({ [alice]: 10 })
+
+    const transaction = await postTransfer(ledger.client, "transfer", alice, bob, 4, "ref-1")
+
+    expect(ledger.balance(alice)).toBe(6)
+    expect(ledger.balance(bob)).toBe(4)
+    expect(transaction.entries.map((entry: { amount: number }) => entry.amount)).toEqual([-4, 4])
+  })
+
+  it("rejects legs that do not balance before touching any account", async () => {
+    const ledger = fakeLedger({ [alice]: 10 })
+    const posting = {
+      type: "transfer",
+      legs: [
+        { accountCode: alice, amount: -4 },
+        { accountCode: bob, amount: 3 },
+      ],
+    }
+
+    await expect(postTransaction(ledger.client, posting)).rejects.toThrow("Unbalanced ledger transaction")
+    expect(ledger.tx.ledgerAccount.upsert).not.toHaveBeenCalled()
+  })
+
+  it("treats legs that balance after rounding as balanced", async () => {
+    const ledger = fakeLedger({ [alice]: 1 })
+    const posting = {
+      type: "split",
+      legs: [
+        { accountCode: alice, amount: -0.3 },
+        { accountCode: bob, amount: 0.1 },
+        { accountCode: SYSTEM_ACCOUNTS.staking, amount: 0.2 },
+      ],
+    }
+
+    await expect(postTransaction(ledger.client, posting)).resolves.toBeDefined()
+    expect(ledger.balance(alice)).toBe(0.7)
+  })
+
+  it("refuses a debit the balance does not cover", async () => {
+    const ledger = fakeLedger({ [alice]: 3 })
+
+    const posting = postTransfer(ledger.client, "transfer", alice, bob, 4)
+
+    await expect(posting).rejects.toBeInstanceOf(InsufficientBalanceError)
+    await expect(posting).rejects.toMatchObject({ accountCode: alice, requested: 4 })
+    expect(ledger.balance(alice)).toBe(3)
+    expect(ledger.tx.ledgerTransaction.create).not.toHaveBeenCalled()
+  })
+
+  it("debits through the conditional update so concurrent postings cannot overdraw", async () => {
+    const ledger = fakeLedger({ [alice]: 10 })
+
+    await postTransfer(ledger.client, "transfer", alice, bob, 4)
+
+    expect(ledger.tx.ledgerAccount.updateMany).toHaveBeenCalledWith({
+      where: { id: "account-1", balance: { gte: 4 } },
+      data: { balance: { increment: -4 } },
+    })
+  })
+
+  it("lets the treasury go negative", async () => {
+    const ledger = fakeLedger()
+
+    await postTransfer(ledger.client, "purchase", SYSTEM_ACCOUNTS.treasury, alice, 25)
+
+    expect(ledger.balance(SYSTEM_ACCOUNTS.treasury)).toBe(-25)
+    expect(ledger.balance(alice)).toBe(25)
+    expect(ledger.tx.ledgerAccount.updateMany).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,97 @@
+import { asTransactionClient, createPrismaMock, type PrismaMock } from "../../../test/prismaMock"
+import { distributeUpstream, MAX_LINEAGE_DEPTH } from "../lineageService"
+
+// Fake transaction client over child -> parent edges; each riff's artist is "artist-<riff>"
+function fakeTx(edges: [string, string][]) {
+  const tx = createPrismaMock()
+  tx.riffLineage.findMany.mockImplementation(async (args) => {
+    const childIds = args?.where?.childId
+    const wanted = typeof childIds === "object" && Array.isArray(childIds.in) ? childIds.in : []
+    return edges
+      .map(([childId, parentId], i) => ({ id: `edge-${i}`, childId, parentId }))
+      .filter((edge) => wanted.includes(edge.childId))
+      .map((edge) => ({ ...edge, parent: { id: edge.parentId, userId: `artist-${edge.parentId}` } }))
+  })
+  tx.lineagePayout.create.mockImplementation(async ({ data }) => data)
+  return tx
+}
+
+async function distribute(tx: PrismaMock, amount: number) {
+  const payment = { source: "tip", sourceId: "tip-1", riffId: "remix", amount, currency: "RIFF" }
+  return distributeUpstream(asTransactionClient(tx), payment)
+}
+
+function sharesOf(result: Awaited<ReturnType<typeof distribute>>) {
+  return Object.fromEntries(result.payouts.map((payout) => [payout.ancestorId, payout.amount]))
+}
+
+describe("distributeUpstream", () => {
+  it("passes the upstream share to each generation", async () => {
+    const result = await distribute(fakeTx([["remix", "parent"], ["parent", "grandparent"]]), 100)
+
+    expect(result.retained).toBe(90)
+    expect(sharesOf(result)).toEqual({ parent: 9, grandparent: 1 })
+    expect(result.payouts.map((payout) => [payout.recipientId, payout.depth])).toEqual([
+      ["artist-parent", 1],
+      ["artist-grandparent", 2],
+    ])
+  })
+
+  it("splits a generation's share equally between parents", async () => {
+    const result = await distribute(fakeTx([["remix", "a"], ["remix", "b"], ["a", "c"]]), 100)
+
+    expect(result.retained).toBe(90)
+    expect(sharesOf(result)).toEqual({ a: 4.5, b: 5, c: 0.5 })
+  })
+
+  it("leaves the rounding dust with the earning riff's artist", async () => {
+    const result = await distribute(fakeTx([["remix", "a"], ["remix", "b"], ["remix", "c"]]), 1)
+
+    expect(sharesOf(result)).toEqual({ a: 0.03333333, b: 0.03333333, c: 0.03333333 })
+    expect(result.retained).toBe(0.90000001)
+  })
+
+  it("pays an ancestor reached along several paths once, with the sum of its shares", async () => {
+    const result = await distribute(fakeTx([["remix", "a"], ["remix", "b"], ["a", "root"], ["b", "root"]]), 100)
+
+    expect(result.payouts.filter((payout) => payout.ancestorId === "root")).toHaveLength(1)
+    expect(sharesOf(result)).toEqual({ a: 4.5, b: 4.5, root: 1 })
+    expect(result.retained).toBe(90)
+  })
+
+  it(`stops after ${MAX_LINEAGE_DEPTH} generations`, async () => {
+    const chain = Array.from({ length: MAX_LINEAGE_DEPTH + 2 }, (_, i) => `riff-${i}`)
+    const tx = fakeTx([["remix", chain[0]], ...chain.slice(1).map((id, i): [string, string] => [chain[i], id])])
+
+    const result = await distribute(tx, 1000)
+
+    expect(result.payouts).toHaveLength(MAX_LINEAGE_DEPTH)
+    expect(Math.max(...result.payouts.map((payout) => payout.depth))).toBe(MAX_LINEAGE_DEPTH)
+  })
+
+  it("loads one generation per query however many paths lead to an ancestor", async () => {
+    // Every riff of a generation remixes both riffs of the next: 2^10 paths to the top
+    const edges: [string, string][] = [["remix", "g1-a"], ["remix", "g1-b"]]
+    for (let generation = 1; generation < MAX_LINEAGE_DEPTH; generation++) {
+      for (const child of ["a", "b"]) {
+        for (const parent of ["a", "b"]) {
+          edges.push([`g${generation}-${child}`, `g${generation + 1}-${parent}`])
+        }
+      }
+    }
+    const tx = fakeTx(edges)
+
+    const result = await distribute(tx, 1000000)
+
+    expect(tx.riffLineage.findMany).toHaveBeenCalledTimes(MAX_LINEAGE_DEPTH)
+    expect(result.payouts).toHaveLength(2 * MAX_LINEAGE_DEPTH)
+    expect(result.retained + result.payouts.reduce((sum, payout) => sum + payout.amount, 0)).toBeCloseTo(1000000, 8)
+  })
+
+  it("records nothing for a riff without parents", async () => {
+    const tx = fakeTx([])
+
+    expect(await distribute(tx, 100)).toEqual({ retained: 100, payouts: [] })
+    expect(tx.lineagePayout.create).not.toHaveBeenCalled()
+  })
+})
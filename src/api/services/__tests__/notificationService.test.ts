@@ -0,0 +1,107 @@
+import logger from "../../../config/logger"
+import { prismaMock } from "../../../test/prismaMock"
+import { notify, setNotificationChannel, type NotificationInput } from "../notificationService"
+import { ConsoleNotificationChannel } from "../notifications/consoleNotificationChannel"
+import type {
+  NotificationChannel,
+  NotificationMessage,
+  NotificationRecipient,
+} from "../notifications/notificationChannel"
+
+class RecordingChannel implements NotificationChannel {
+  readonly name = "recording"
+  sent: { recipient: NotificationRecipient; message: NotificationMessage }[] = []
+
+  async send(recipient: NotificationRecipient, message: NotificationMessage) {
+    this.sent.push({ recipient, message })
+    return true
+  }
+}
+
+const recipient = { id: "user-1", name: "Ada", email: "ada@example.com" }
+const tip: NotificationInput = {
+  userId: "user-1",
+  type: "tipReceived",
+  title: "You received a tip",
+  body: "Someone tipped 5 RIFF on your riff",
+  data: { riffId: "riff-1", amount: 5 },
+}
+
+// notify() runs in the background; let its awaited mocks settle
+function settle() {
+  return new Promise((resolve) => setImmediate(resolve))
+}
+
+let channel: RecordingChannel
+
+beforeEach(() => {
+  jest.resetAllMocks()
+  channel = new RecordingChannel()
+  setNotificationChannel(channel)
+  prismaMock.user.findUnique.mockResolvedValue(recipient)
+  prismaMock.notificationPreference.findUnique.mockResolvedValue(null)
+})
+
+describe("notify", () => {
+  it("stores the notification in the inbox and delivers it by default", async () => {
+    notify(tip)
+    await settle()
+
+    expect(prismaMock.notification.create).toHaveBeenCalledWith({
+      data: { userId: "user-1", type: "tipReceived", title: tip.title, body: tip.body, data: tip.data },
+    })
+    expect(channel.sent).toEqual([
+      { recipient, message: { type: "tipReceived", title: tip.title, body: tip.body, data: tip.data } },
+    ])
+  })
+
+  it("skips delivery when the user turned it off for the type", async () => {
+    prismaMock.notificationPreference.findUnique.mockResolvedValue({ inApp: true, email: false })
+
+    notify(tip)
+    await settle()
+
+    expect(prismaMock.notification.create).toHaveBeenCalled()
+    expect(channel.sent).toEqual([])
+  })
+
+  it("skips the inbox when the user turned it off for the type", async () => {
+    prismaMock.notificationPreference.findUnique.mockResolvedValue({ inApp: false, email: true })
+
+    notify(tip)
+    await settle()
+
+    expect(prismaMock.notification.create).not.toHaveBeenCalled()
+    expect(channel.sent).toHaveLength(1)
+  })
+
+  it("does nothing for an unknown user", async () => {
+    prismaMock.user.findUnique.mockResolvedValue(null)
+
+    notify(tip)
+    await settle()
+
+    expect(prismaMock.notification.create).not.toHaveBeenCalled()
+    expect(channel.sent).toEqual([])
+  })
+
+  it("logs delivery failures instead of passing them to the caller", async () => {
+    jest.spyOn(channel, "send").mockRejectedValue(new Error("SES unavailable"))
+
+    expect(() => notify(tip)).not.toThrow()
+    await settle()
+
+    expect(logger.error).toHaveBeenCalledWith(expect.stringContaining("SES unavailable"), {
+      userId: "user-1",
+      type: "tipReceived",
+    })
+  })
+})
+
+describe("ConsoleNotificationChannel", () => {
+  it("logs only the user ID and type", async () => {
+    await new ConsoleNotificationChannel().send(recipient, { type: "tipReceived", title: tip.title, body: tip.body })
+
+    expect(logger.info).toHaveBeenCalledWith("Notification for user user-1", { type: "tipReceived" })
+  })
+})
@@ -0,0 +1,80 @@
+import { asTransactionClient, createPrismaMock, type PrismaMock } from "../../../test/prismaMock"
+import { distributeRoyalties } from "../royaltyService"
+
+function fakeTx(options: { royaltyPercentage: number; customRoyaltyShare: number; stakes: number[] }) {
+  const nft = {
+    id: "nft-1",
+    riffId: "riff-1",
+    royaltyPercentage: options.royaltyPercentage,
+    customRoyaltyShare: options.customRoyaltyShare,
+    enableStaking: true,
+    riff: { id: "riff-1", userId: "creator" },
+  }
+  const stakes = options.stakes.map((amount, i) => ({ id: `stake-${i}`, userId: `staker-${i}`, amount }))
+
+  const tx = createPrismaMock()
+  tx.nFT.findUnique.mockResolvedValue(nft)
+  tx.staking.findMany.mockResolvedValue(stakes)
+  tx.riffLineage.findMany.mockResolvedValue([])
+  tx.royaltyDistribution.create.mockImplementation(async ({ data }) => ({
+    id: "distribution-1",
+    ...data,
+    payouts: data.payouts?.create,
+  }))
+  return tx
+}
+
+async function distribute(tx: PrismaMock, grossAmount: number) {
+  return distributeRoyalties(asTransactionClient(tx), {
+    nftId: "nft-1",
+    source: "sale",
+    sourceId: "sale-1",
+    grossAmount,
+    currency: "RIFF",
+  })
+}
+
+describe("distributeRoyalties", () => {
+  it("splits the royalty between stakers pro rata and the creator", async () => {
+    const tx = fakeTx({ royaltyPercentage: 10, customRoyaltyShare: 30, stakes: [1, 2] })
+    const distribution = await distribute(tx, 100)
+
+    expect(distribution.royaltyAmount).toBe(10)
+    expect(distribution.stakerPool).toBe(3)
+    expect(distribution.payouts).toEqual([
+      { recipientId: "creator", role: "creator", amount: 7 },
+      { recipientId: "staker-0", stakingId: "stake-0", role: "staker", amount: 1 },
+      { recipientId: "staker-1", stakingId: "stake-1", role: "staker", amount: 2 },
+    ])
+  })
+
+  it("gives the rounding dust to the creator so payouts add up to the royalty", async () => {
+    const tx = fakeTx({ royaltyPercentage: 10, customRoyaltyShare: 50, stakes: [1, 1, 1] })
+    const distribution = await distribute(tx, 10)
+    const stakerAmounts = distribution.payouts
+      .filter((payout) => payout.role === "staker")
+      .map((payout) => payout.amount)
+    const creator = distribution.payouts.find((payout) => payout.role === "creator")
+
+    expect(stakerAmounts).toEqual([0.16666667, 0.16666667, 0.16666667])
+    expect(creator?.amount).toBe(0.49999999)
+    expect(creator!.amount + stakerAmounts.reduce((sum, amount) => sum + amount, 0)).toBeCloseTo(1, 8)
+  })
+
+  it("pays the whole royalty to the creator when nothing is staked", async () => {
+    const distribution = await distribute(fakeTx({ royaltyPercentage: 5, customRoyaltyShare: 50, stakes: [] }), 40)
+
+    expect(distribution.stakerPool).toBe(0)
+    expect(distribution.payouts).toEqual([{ recipientId: "creator", role: "creator", amount: 2 }])
+  })
+
+  it("credits each staker's earned royalties", async () => {
+    const tx = fakeTx({ royaltyPercentage: 10, customRoyaltyShare: 30, stakes: [1, 2] })
+    await distribute(tx, 100)
+
+    expect(tx.staking.update).toHaveBeenCalledWith({
+      where: { id: "stake-1" },
+      data: { royaltiesEarned: { increment: 2 } },
+    })
+  })
+})
@@ -0,0 +1,138 @@
+import { ethers } from "ethers"
+import { prismaMock } from "../../../test/prismaMock"
+import { parseSiweMessage, verifySiweMessage } from "../siweService"
+
+const wallet = ethers.Wallet.createRandom()
+const minute = 60 * 1000
+
+function buildMessage(fields: { domain?: string; nonce?: string; expirationTime?: Date; notBefore?: Date } = {}) {
+  const domain = fields.domain ?? "riffblock.test"
+  return [
+    `${domain} wants you to sign in with your Ethereum account:`,
+    wallet.address,
+    "",
+    "Sign in to RiffBlock",
+    "",
+    `URI: https://${domain}/login`,
+    "Version: 1",
+    "Chain ID: 1",
+    `Nonce: ${fields.nonce ?? "abc123"}`,
+    `Issued At: ${new Date().toISOString()}`,
+    ...(fields.expirationTime ? [`Expiration Time: ${fields.expirationTime.toISOString()}`] : []),
+    ...(fields.notBefore ? [`Not Before: ${fields.notBefore.toISOString()}`] : []),
+  ].join("\n")
+}
+
+async function verify(message: string) {
+  return verifySiweMessage(message, await wallet.signMessage(message))
+}
+
+beforeEach(() => {
+  jest.resetAllMocks()
+  prismaMock.walletNonce.findUnique.mockResolvedValue({
+    id: "nonce-1",
+    nonce: "abc123",
+    address: null,
+    expiresAt: new Date(Date.now() + 10 * minute),
+    usedAt: null,
+  })
+  prismaMock.walletNonce.updateMany.mockResolvedValue({ count: 1 })
+})
+
+describe("parseSiweMessage", () => {
+  it("reads the header, statement and fields", () => {
+    const parsed = parseSiweMessage(buildMessage())
+
+    expect(parsed).toMatchObject({
+      domain: "riffblock.test",
+      address: wallet.address,
+      statement: "Sign in to RiffBlock",
+      uri: "https://riffblock.test/login",
+      version: "1",
+      chainId: 1,
+      nonce: "abc123",
+      resources: [],
+    })
+  })
+
+  it("reads the resources list", () => {
+    const message = `${buildMessage()}\nResources:\n- ipfs://a\n- https://riffblock.test/b`
+
+    expect(parseSiweMessage(message)?.resources).toEqual(["ipfs://a", "https://riffblock.test/b"])
+  })
+
+  it("rejects messages without the EIP-4361 header", () => {
+    expect(parseSiweMessage(buildMessage().replace("wants you to sign in", "asks you to log in"))).toBeNull()
+  })
+
+  it("rejects messages missing a required field", () => {
+    expect(parseSiweMessage(buildMessage().replace(/\nNonce: .*/, ""))).toBeNull()
+  })
+})
+
+describe("verifySiweMessage", () => {
+  it("accepts a valid message and consumes its nonce", async () => {
+    const result = await verify(buildMessage())
+
+    expect(result).toMatchObject({ success: true, address: wallet.address })
+    expect(prismaMock.walletNonce.updateMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { id: "nonce-1", usedAt: null } }),
+    )
+  })
+
+  it("rejects a message for another domain", async () => {
+    const result = await verify(buildMessage({ domain: "evil.example" }))
+
+    expect(result).toEqual({ success: false, reason: "Sign-in message domain mismatch" })
+    expect(prismaMock.walletNonce.findUnique).not.toHaveBeenCalled()
+  })
+
+  it("rejects an expired message", async () => {
+    const result = await verify(buildMessage({ expirationTime: new Date(Date.now() - minute) }))
+
+    expect(result).toEqual({ success: false, reason: "Sign-in message has expired" })
+  })
+
+  it("rejects a message that is not valid yet", async () => {
+    const result = await verify(buildMessage({ notBefore: new Date(Date.now() + minute) }))
+
+    expect(result).toEqual({ success: false, reason: "Sign-in message is not yet valid" })
+  })
+
+  it("rejects a signature by another wallet", async () => {
+    const message = buildMessage()
+    const result = await verifySiweMessage(message, await ethers.Wallet.createRandom().signMessage(message))
+
+    expect(result).toEqual({ success: false, reason: "Invalid signature" })
+  })
+
+  it("rejects an unknown or expired nonce", async () => {
+    prismaMock.walletNonce.findUnique.mockResolvedValue({
+      id: "nonce-1",
+      nonce: "abc123",
+      address: null,
+      expiresAt: new Date(Date.now() - minute),
+      usedAt: null,
+    })
+
+    expect(await verify(buildMessage())).toEqual({ success: false, reason: "Unknown or expired nonce" })
+  })
+
+  it("rejects a nonce issued for a different address", async () => {
+    prismaMock.walletNonce.findUnique.mockResolvedValue({
+      id: "nonce-1",
+      nonce: "abc123",
+      address: ethers.Wallet.createRandom().address,
+      expiresAt: new Date(Date.now() + 10 * minute),
+      usedAt: null,
+    })
+
+    expect(await verify(buildMessage())).toEqual({ success: false, reason: "Nonce was issued for a different address" })
+  })
+
+  it("rejects a nonce that was already used", async () => {
+    prismaMock.walletNonce.updateMany.mockResolvedValue({ count: 0 })
+
+    expect(await verify(buildMessage())).toEqual({ success: false, reason: "Nonce has already been used" })
+  })
+})
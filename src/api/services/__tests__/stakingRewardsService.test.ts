@@ -0,0 +1,67 @@
+import type { Staking } from "@prisma/client"
+import { computeReward, getRewardApr } from "../stakingRewardsService"
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const stakedAt = new Date("2026-01-01T00:00:00Z")
+
+function stake(overrides: Partial<Staking> = {}): Staking {
+  return {
+    id: "stake-1",
+    amount: 1000,
+    riffId: "riff-1",
+    userId: "staker",
+    stakedAt,
+    unlockAt: new Date(stakedAt.getTime() + 365 * DAY_MS),
+    royaltiesEarned: 0,
+    pendingRewards: 0,
+    lastAccruedAt: null,
+    tierId: null,
+    lockDays: 365,
+    rewardMultiplier: 1,
+    earlyExitAllowed: false,
+    earlyExitPenaltyPercent: 0,
+    penaltyPaid: 0,
+    status: "locked",
+    updatedAt: stakedAt,
+    ...overrides,
+  }
+}
+
+function daysAfterStake(days: number) {
+  return new Date(stakedAt.getTime() + days * DAY_MS)
+}
+
+describe("getRewardApr", () => {
+  it("applies the tier multiplier to the base rate", () => {
+    expect(getRewardApr({ rewardMultiplier: 1 })).toBe(12)
+    expect(getRewardApr({ rewardMultiplier: 1.5 })).toBe(18)
+  })
+})
+
+describe("computeReward", () => {
+  it("accrues the annual rate pro rata over the period", () => {
+    expect(computeReward(stake(), stakedAt, daysAfterStake(365))).toBe(120)
+    expect(computeReward(stake(), daysAfterStake(73), daysAfterStake(146))).toBe(24)
+  })
+
+  it("scales with the stake's reward multiplier", () => {
+    expect(computeReward(stake({ rewardMultiplier: 2 }), stakedAt, daysAfterStake(365))).toBe(240)
+  })
+
+  it("stops accruing at the unlock date", () => {
+    const locked = stake({ unlockAt: daysAfterStake(73) })
+
+    expect(computeReward(locked, stakedAt, daysAfterStake(365))).toBe(24)
+    expect(computeReward(locked, daysAfterStake(100), daysAfterStake(200))).toBe(0)
+  })
+
+  it("returns nothing for an empty or reversed period", () => {
+    expect(computeReward(stake(), daysAfterStake(10), daysAfterStake(10))).toBe(0)
+    expect(computeReward(stake(), daysAfterStake(10), daysAfterStake(5))).toBe(0)
+  })
+
+  it("rounds to 8 decimals", () => {
+    expect(computeReward(stake({ amount: 1 }), stakedAt, new Date(stakedAt.getTime() + 1000))).toBe(0)
+    expect(computeReward(stake({ amount: 1 }), stakedAt, daysAfterStake(1))).toBe(0.00032877)
+  })
+})
@@ -0,0 +1,114 @@
+import type { Staking } from "@prisma/client"
+import { DEFAULT_TIER, quoteEarlyExit, quoteStake, validateTiers, type TierTerms } from "../stakingTierService"
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const now = new Date("2026-03-01T00:00:00Z")
+
+const flexibleTier: TierTerms = {
+  id: "tier-1",
+  name: "Flexible",
+  lockDays: 30,
+  rewardMultiplier: 0.5,
+  earlyExitAllowed: true,
+  earlyExitPenaltyPercent: 10,
+}
+
+function stake(overrides: Partial<Staking> = {}): Staking {
+  return {
+    id: "stake-1",
+    amount: 200,
+    riffId: "riff-1",
+    userId: "staker",
+    stakedAt: now,
+    unlockAt: new Date(now.getTime() + 30 * DAY_MS),
+    royaltiesEarned: 0,
+    pendingRewards: 1.5,
+    lastAccruedAt: null,
+    tierId: "tier-1",
+    lockDays: 30,
+    rewardMultiplier: 0.5,
+    earlyExitAllowed: true,
+    earlyExitPenaltyPercent: 10,
+    penaltyPaid: 0,
+    status: "locked",
+    updatedAt: now,
+    ...overrides,
+  }
+}
+
+describe("validateTiers", () => {
+  it("returns the tiers with defaults applied", () => {
+    const result = validateTiers([{ lockDays: 30 }, { name: "Long", lockDays: 180, rewardMultiplier: 2 }])
+
+    expect(result).toEqual({
+      tiers: [
+        { name: null, lockDays: 30, rewardMultiplier: 1, earlyExitAllowed: false, earlyExitPenaltyPercent: 0 },
+        { name: "Long", lockDays: 180, rewardMultiplier: 2, earlyExitAllowed: false, earlyExitPenaltyPercent: 0 },
+      ],
+    })
+  })
+
+  it.each([
+    [[], "At least one tier is required"],
+    ["30", "At least one tier is required"],
+    [[{ lockDays: 0 }], "lockDays must be a positive integer"],
+    [[{ lockDays: 1.5 }], "lockDays must be a positive integer"],
+    [[{ lockDays: 30 }, { lockDays: 30 }], "Duplicate tier for 30 days"],
+    [[{ lockDays: 30, name: 5 }], "name must be a string"],
+    [[{ lockDays: 30, rewardMultiplier: 0 }], "rewardMultiplier must be a positive number"],
+    [[{ lockDays: 30, earlyExitPenaltyPercent: 101 }], "earlyExitPenaltyPercent must be between 0 and 100"],
+  ])("rejects %j", (input, error) => {
+    expect(validateTiers(input)).toEqual({ error })
+  })
+})
+
+describe("quoteStake", () => {
+  it("projects the reward for the lock period at the tier's rate", () => {
+    const quote = quoteStake({ ...DEFAULT_TIER, lockDays: 365, rewardMultiplier: 1.5 }, 100, now)
+
+    expect(quote.baseApr).toBe(12)
+    expect(quote.apr).toBe(18)
+    expect(quote.projectedReward).toBe(18)
+    expect(quote.unlockAt).toEqual(new Date(now.getTime() + 365 * DAY_MS))
+  })
+
+  it("quotes the early exit penalty", () => {
+    expect(quoteStake(flexibleTier, 200, now).earlyExit).toEqual({
+      allowed: true,
+      penaltyPercent: 10,
+      penaltyAmount: 20,
+    })
+  })
+})
+
+describe("quoteEarlyExit", () => {
+  it("deducts the penalty when leaving before the unlock date", () => {
+    expect(quoteEarlyExit(stake(), new Date(now.getTime() + 10 * DAY_MS))).toMatchObject({
+      isEarly: true,
+      allowed: true,
+      penaltyPercent: 10,
+      penaltyAmount: 20,
+      amountReturned: 180,
+      pendingRewards: 1.5,
+    })
+  })
+
+  it("charges no penalty once the stake has unlocked", () => {
+    expect(quoteEarlyExit(stake(), new Date(now.getTime() + 31 * DAY_MS))).toMatchObject({
+      isEarly: false,
+      allowed: true,
+      penaltyPercent: 0,
+      penaltyAmount: 0,
+      amountReturned: 200,
+    })
+  })
+
+  it("refuses early exit on tiers that do not allow it", () => {
+    const locked = stake({ earlyExitAllowed: false, earlyExitPenaltyPercent: 0 })
+
+    expect(quoteEarlyExit(locked, new Date(now.getTime() + 10 * DAY_MS))).toMatchObject({
+      isEarly: true,
+      allowed: false,
+    })
+  })
+})
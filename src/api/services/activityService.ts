@@ -0,0 +1,113 @@
+import { PrismaClient, type Prisma } from "@prisma/client"
+import { pageArgs, PageParams, toPage } from "../utils/pagination"
+import { publicUserSelect } from "../utils/projections"
+import logger from "../../config/logger"
+
+const prisma = new PrismaClient()
+
+// Total staked on a riff at which followers hear about it, ascending
+export const STAKING_MILESTONES = (process.env.STAKING_MILESTONES || "100,1000,10000,100000")
+  .split(",")
+  .map((value) => Number.parseFloat(value))
+  .filter((value) => Number.isFinite(value) && value > 0)
+  .sort((a, b) => a - b)
+
+export type ActivityType = "riffCreated" | "nftMinted" | "tipReceived" | "stakingMilestone"
+
+export interface ActivityInput {
+  type: ActivityType
+  artistId: string
+  riffId: string
+  actorId?: string
+  amount?: number
+}
+
+/**
+ * Record a feed event about a riff
+ * @param tx Transaction (or client) the triggering write runs in
+ * @param activity Event type, riff, artist and optional actor and amount
+ * @returns Created event
+ */
+export async function recordActivity(tx: Prisma.TransactionClient, activity: ActivityInput) {
+  const event = await tx.activityEvent.create({ data: activity })
+
+  logger.debug(`Activity recorded: ${activity.type}`, { riffId: activity.riffId, eventId: event.id })
+  return event
+}
+
+/**
+ * Record a milestone event for every staking milestone a new stake carried the riff's total past.
+ * Each milestone is announced once per riff, even if the total later drops below it and recovers.
+ * @param tx Transaction the stake is created in, after the stake itself
+ * @param stake Riff, its artist, the staker and the staked amount
+ * @returns Milestones reached
+ */
+export async function recordStakingMilestones(
+  tx: Prisma.TransactionClient,
+  stake: { riffId: string; artistId: string; userId: string; amount: number },
+): Promise<number[]> {
+  const active = await tx.staking.aggregate({
+    where: { riffId: stake.riffId, status: { not: "withdrawn" } },
+    _sum: { amount: true },
+  })
+
+  const total = active._sum.amount ?? 0
+  const crossed = STAKING_MILESTONES.filter((milestone) => total - stake.amount < milestone && milestone <= total)
+
+  if (crossed.length === 0) {
+    return []
+  }
+
+  const announced = await tx.activityEvent.findMany({
+    where: { riffId: stake.riffId, type: "stakingMilestone", amount: { in: crossed } },
+    select: { amount: true },
+  })
+  const reached = crossed.filter((milestone) => !announced.some((event) => event.amount === milestone))
+
+  for (const milestone of reached) {
+    await recordActivity(tx, {
+      type: "stakingMilestone",
+      artistId: stake.artistId,
+      riffId: stake.riffId,
+      actorId: stake.userId,
+      amount: milestone,
+    })
+  }
+
+  return reached
+}
+
+/**
+ * Get a user's feed: events of the artists and riffs they follow, newest first
+ * @param userId ID of the follower
+ * @param page Page window
+ * @returns Page of events with their riff, artist and actor
+ */
+export async function getFeed(userId: string, page: PageParams) {
+  const events = await prisma.activityEvent.findMany({
+    where: {
+      OR: [
+        { artist: { followers: { some: { followerId: userId } } } },
+        { riff: { followers: { some: { userId } } } },
+      ],
+    },
+    orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+    ...pageArgs(page),
+    include: {
+      artist: { select: publicUserSelect },
+      actor: { select: publicUserSelect },
+      riff: {
+        select: {
+          id: true,
+          title: true,
+          coverImageUrl: true,
+          previewUrl: true,
+          genre: true,
+          nft: { select: { id: true, tokenId: true, price: true, currency: true, isListed: true } },
+        },
+      },
+    },
+  })
+
+  return toPage(events, page)
+}
@@ -0,0 +1,63 @@
+import { PrismaClient, type NFT, type Riff } from "@prisma/client"
+import { getSignedDownloadUrl, getStorage } from "./storageService"
+import logger from "../../config/logger"
+
+const prisma = new PrismaClient()
+
+// Who besides the artist and the current holder may stream an NFT's full-quality audio
+export const FULL_AUDIO_ACCESS_LEVELS = ["holder", "stakers", "everyone"] as const
+export type FullAudioAccess = (typeof FULL_AUDIO_ACCESS_LEVELS)[number]
+
+export function isFullAudioAccess(value: unknown): value is FullAudioAccess {
+  return FULL_AUDIO_ACCESS_LEVELS.includes(value as FullAudioAccess)
+}
+
+/**
+ * Check whether a user may access the full-quality audio of a riff
+ * @param riff Riff with its NFT
+ * @param userId ID of the requesting user
+ * @returns Whether access is granted
+ */
+export async function canAccessFullAudio(riff: Riff & { nft: NFT | null }, userId: string): Promise<boolean> {
+  if (riff.userId === userId) {
+    return true
+  }
+
+  // Without an NFT there is no holder; only the artist has the full file
+  const nft = riff.nft
+  if (!nft || nft.status !== "confirmed") {
+    return false
+  }
+
+  if (nft.ownerId === userId || nft.fullAudioAccess === "everyone") {
+    return true
+  }
+
+  if (nft.fullAudioAccess === "stakers") {
+    const stake = await prisma.staking.findFirst({
+      where: { riffId: riff.id, userId, status: { not: "withdrawn" } },
+      select: { id: true },
+    })
+    return !!stake
+  }
+
+  return false
+}
+
+/**
+ * Issue a short-lived URL for the full-quality audio of a riff
+ * @param riff Riff whose audio to sign
+ * @returns Signed URL and its expiry, or null if the audio is not in the configured storage
+ */
+export async function signFullAudioUrl(riff: Pick<Riff, "id" | "audioKey" | "audioUrl">) {
+  // Riffs uploaded before audio keys were stored only have the object URL
+  const key = riff.audioKey ?? getStorage().getKeyFromUrl(riff.audioUrl)
+
+  if (!key) {
+    logger.warn(`Audio of riff ${riff.id} is not in the configured storage`, { audioUrl: riff.audioUrl })
+    return null
+  }
+
+  logger.debug(`Signing full audio URL for riff: ${riff.id}`, { key })
+  return getSignedDownloadUrl(key)
+}
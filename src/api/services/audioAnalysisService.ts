@@ -0,0 +1,626 @@
+import logger from "../../config/logger"
+
+// Number of points in the waveform-peaks array sent to the player
+const waveformPoints = Number.parseInt(process.env.WAVEFORM_POINTS || "200", 10)
+
+// Longest public preview; shorter riffs get a preview of half their length
+const previewClipSeconds = Number.parseFloat(process.env.PREVIEW_CLIP_SECONDS || "30")
+
+// Tempo search range
+const MIN_BPM = 60
+const MAX_BPM = 200
+// Below this length there are too few beats for a meaningful tempo estimate
+const MIN_TEMPO_SECONDS = 4
+// Hop of the WAV onset envelope, in samples at 44.1 kHz (scaled for other rates)
+const WAV_ENVELOPE_HOP_44K = 512
+
+// Thrown for files that are not valid audio or are cut short
+export class AudioAnalysisError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "AudioAnalysisError"
+  }
+}
+
+export interface AudioAnalysis {
+  format: "wav" | "mp3"
+  duration: number
+  sampleRate: number
+  channels: number
+  // Bits per second (average for VBR MP3)
+  bitrate: number
+  bpm: number | null
+  // Peak amplitude per slice, normalised to 0..1
+  waveformPeaks: number[]
+}
+
+/**
+ * Parse and analyse an uploaded audio file
+ * @param buffer File contents
+ * @returns Analysis, or null if the format is not WAV or MP3
+ */
+export function analyzeAudio(buffer: Buffer): AudioAnalysis | null {
+  if (isWav(buffer)) {
+    return analyzeWav(buffer)
+  }
+
+  if (isMp3(buffer)) {
+    return analyzeMp3(buffer)
+  }
+
+  logger.debug("Audio format not analysable, skipping analysis", { size: buffer.length })
+  return null
+}
+
+function isWav(buffer: Buffer) {
+  return buffer.length >= 12 && buffer.toString("ascii", 0, 4) === "RIFF" && buffer.toString("ascii", 8, 12) === "WAVE"
+}
+
+function isMp3(buffer: Buffer) {
+  if (buffer.length >= 3 && buffer.toString("ascii", 0, 3) === "ID3") {
+    return true
+  }
+  // Layer bits 00 under the same sync word mean an AAC ADTS header, which is not analysed
+  return buffer.length >= 2 && buffer[0] === 0xff && (buffer[1] & 0xe0) === 0xe0 && (buffer[1] & 0x06) !== 0
+}
+
+// ---------------------------------------------------------------------------
+// WAV
+// ---------------------------------------------------------------------------
+
+const WAVE_FORMAT_PCM = 1
+const WAVE_FORMAT_IEEE_FLOAT = 3
+const WAVE_FORMAT_EXTENSIBLE = 0xfffe
+
+interface WavFormat {
+  audioFormat: number
+  channels: number
+  sampleRate: number
+  byteRate: number
+  blockAlign: number
+  bitsPerSample: number
+}
+
+// Walk the RIFF chunks up to the audio data and validate the sample format
+function locateWavData(buffer: Buffer) {
+  let offset = 12
+  let fmt: WavFormat | null = null
+  let dataOffset = -1
+  let dataSize = 0
+
+  while (offset + 8 <= buffer.length) {
+    const chunkId = buffer.toString("ascii", offset, offset + 4)
+    const chunkSize = buffer.readUInt32LE(offset + 4)
+    const body = offset + 8
+
+    if (chunkId === "fmt ") {
+      if (chunkSize < 16 || body + 16 > buffer.length) {
+        throw new AudioAnalysisError("WAV fmt chunk is truncated")
+      }
+
+      let audioFormat = buffer.readUInt16LE(body)
+      if (audioFormat === WAVE_FORMAT_EXTENSIBLE && chunkSize >= 26 && body + 26 <= buffer.length) {
+        // The real format is the first two bytes of the SubFormat GUID
+        audioFormat = buffer.readUInt16LE(body + 24)
+      }
+
+      fmt = {
+        audioFormat,
+        channels: buffer.readUInt16LE(body + 2),
+        sampleRate: buffer.readUInt32LE(body + 4),
+        byteRate: buffer.readUInt32LE(body + 8),
+        blockAlign: buffer.readUInt16LE(body + 12),
+        bitsPerSample: buffer.readUInt16LE(body + 14),
+      }
+    } else if (chunkId === "data") {
+      dataOffset = body
+      // Streaming writers leave the size at 0 or 0xFFFFFFFF; the data then runs to the end of the file
+      dataSize = chunkSize === 0 || chunkSize === 0xffffffff ? buffer.length - body : chunkSize
+
+      if (body + dataSize > buffer.length) {
+        throw new AudioAnalysisError("WAV data chunk is truncated")
+      }
+      break
+    }
+
+    // Chunks are word aligned
+    offset = body + chunkSize + (chunkSize % 2)
+  }
+
+  if (!fmt) {
+    throw new AudioAnalysisError("WAV file has no fmt chunk")
+  }
+
+  if (dataOffset === -1) {
+    throw new AudioAnalysisError("WAV file has no data chunk")
+  }
+
+  const { audioFormat, channels, sampleRate, bitsPerSample } = fmt
+  const bytesPerSample = bitsPerSample / 8
+
+  const supported =
+    (audioFormat === WAVE_FORMAT_PCM && [8, 16, 24, 32].includes(bitsPerSample)) ||
+    (audioFormat === WAVE_FORMAT_IEEE_FLOAT && (bitsPerSample === 32 || bitsPerSample === 64))
+
+  if (!supported) {
+    throw new AudioAnalysisError(`Unsupported WAV encoding (format ${audioFormat}, ${bitsPerSample}-bit)`)
+  }
+
+  if (channels < 1 || sampleRate < 1 || fmt.blockAlign !== channels * bytesPerSample) {
+    throw new AudioAnalysisError("WAV fmt chunk is inconsistent")
+  }
+
+  return { fmt, dataOffset, dataSize }
+}
+
+function analyzeWav(buffer: Buffer): AudioAnalysis {
+  const { fmt, dataOffset, dataSize } = locateWavData(buffer)
+  const { audioFormat, channels, sampleRate, bitsPerSample } = fmt
+  const bytesPerSample = bitsPerSample / 8
+
+  const frameSize = fmt.blockAlign
+  const totalFrames = Math.floor(dataSize / frameSize)
+
+  if (totalFrames === 0) {
+    throw new AudioAnalysisError("WAV file contains no audio")
+  }
+
+  const readSample = (position: number): number => {
+    if (audioFormat === WAVE_FORMAT_IEEE_FLOAT) {
+      return bitsPerSample === 32 ? buffer.readFloatLE(position) : buffer.readDoubleLE(position)
+    }
+    switch (bitsPerSample) {
+      case 8:
+        return (buffer[position] - 128) / 128
+      case 16:
+        return buffer.readInt16LE(position) / 32768
+      case 24:
+        return buffer.readIntLE(position, 3) / 8388608
+      default:
+        return buffer.readInt32LE(position) / 2147483648
+    }
+  }
+
+  // Single pass: waveform peaks per slice and an RMS energy envelope for tempo detection
+  const peaks = new Array<number>(Math.min(waveformPoints, totalFrames)).fill(0)
+  const hop = Math.max(1, Math.round((WAV_ENVELOPE_HOP_44K * sampleRate) / 44100))
+  const envelope: number[] = []
+  let hopEnergy = 0
+  let hopCount = 0
+
+  for (let frame = 0; frame < totalFrames; frame++) {
+    const position = dataOffset + frame * frameSize
+    let mono = 0
+    for (let channel = 0; channel < channels; channel++) {
+      mono += readSample(position + channel * bytesPerSample)
+    }
+    mono /= channels
+
+    const slice = Math.floor((frame * peaks.length) / totalFrames)
+    const amplitude = Math.abs(mono)
+    if (amplitude > peaks[slice]) peaks[slice] = amplitude
+
+    hopEnergy += mono * mono
+    hopCount++
+    if (hopCount === hop) {
+      envelope.push(Math.sqrt(hopEnergy / hopCount))
+      hopEnergy = 0
+      hopCount = 0
+    }
+  }
+
+  const duration = totalFrames / sampleRate
+
+  return {
+    format: "wav",
+    duration,
+    sampleRate,
+    channels,
+    bitrate: sampleRate * channels * bitsPerSample,
+    bpm: duration >= MIN_TEMPO_SECONDS ? estimateTempo(envelope, sampleRate / hop) : null,
+    waveformPeaks: normalizePeaks(peaks),
+  }
+}
+
+// ---------------------------------------------------------------------------
+// MP3
+// ---------------------------------------------------------------------------
+
+// Bitrates in kbps indexed by [version][layer][index]; version 1 = MPEG-1, 2 = MPEG-2/2.5
+const BITRATES: Record<number, Record<number, number[]>> = {
+  1: {
+    1: [0, 32, 64, 96, 128, 160, 192, 224, 256, 288, 320, 352, 384, 416, 448],
+    2: [0, 32, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320, 384],
+    3: [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],
+  },
+  2: {
+    1: [0, 32, 48, 56, 64, 80, 96, 112, 128, 144, 160, 176, 192, 224, 256],
+    2: [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+    3: [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+  },
+}
+
+const SAMPLE_RATES: Record<string, number[]> = {
+  "1": [44100, 48000, 32000],
+  "2": [22050, 24000, 16000],
+  "2.5": [11025, 12000, 8000],
+}
+
+interface Mp3FrameHeader {
+  version: "1" | "2" | "2.5"
+  layer: 1 | 2 | 3
+  protected: boolean
+  bitrate: number
+  sampleRate: number
+  channels: number
+  frameLength: number
+  samples: number
+}
+
+function parseMp3FrameHeader(buffer: Buffer, offset: number): Mp3FrameHeader | null {
+  if (offset + 4 > buffer.length) return null
+
+  const b1 = buffer[offset + 1]
+  const b2 = buffer[offset + 2]
+  const b3 = buffer[offset + 3]
+
+  if (buffer[offset] !== 0xff || (b1 & 0xe0) !== 0xe0) return null
+
+  const versionBits = (b1 >> 3) & 0x03
+  const layerBits = (b1 >> 1) & 0x03
+  const bitrateIndex = (b2 >> 4) & 0x0f
+  const sampleRateIndex = (b2 >> 2) & 0x03
+
+  // Reserved or free-format values cannot be measured reliably
+  if (versionBits === 1 || layerBits === 0 || bitrateIndex === 0 || bitrateIndex === 15 || sampleRateIndex === 3) {
+    return null
+  }
+
+  const version = versionBits === 3 ? "1" : versionBits === 2 ? "2" : "2.5"
+  const layer = (4 - layerBits) as 1 | 2 | 3
+  const bitrate = BITRATES[version === "1" ? 1 : 2][layer][bitrateIndex] * 1000
+  const sampleRate = SAMPLE_RATES[version][sampleRateIndex]
+  const padding = (b2 >> 1) & 0x01
+  const channels = ((b3 >> 6) & 0x03) === 3 ? 1 : 2
+
+  let frameLength: number
+  let samples: number
+
+  if (layer === 1) {
+    frameLength = (Math.floor((12 * bitrate) / sampleRate) + padding) * 4
+    samples = 384
+  } else if (layer === 2 || version === "1") {
+    frameLength = Math.floor((144 * bitrate) / sampleRate) + padding
+    samples = 1152
+  } else {
+    frameLength = Math.floor((72 * bitrate) / sampleRate) + padding
+    samples = 576
+  }
+
+  return {
+    version,
+    layer,
+    protected: (b1 & 0x01) === 0,
+    bitrate,
+    sampleRate,
+    channels,
+    frameLength,
+    samples,
+  }
+}
+
+// Reads big-endian bit fields, as used by MP3 side information
+class BitReader {
+  private bitOffset: number
+
+  constructor(
+    private buffer: Buffer,
+    byteOffset: number,
+  ) {
+    this.bitOffset = byteOffset * 8
+  }
+
+  read(bits: number): number {
+    let value = 0
+    for (let i = 0; i < bits; i++) {
+      const byte = this.buffer[this.bitOffset >> 3]
+      value = (value << 1) | ((byte >> (7 - (this.bitOffset & 7))) & 1)
+      this.bitOffset++
+    }
+    return value
+  }
+
+  skip(bits: number) {
+    this.bitOffset += bits
+  }
+}
+
+/**
+ * Loudness proxy per granule of a Layer III frame, from the global_gain fields of the side information.
+ * The MP3 quantiser scales every spectral value by 2^((global_gain - 210) / 4), so louder granules
+ * carry larger gains. This avoids decoding the audio but is only an approximation of the signal level.
+ */
+function layer3GranuleLevels(buffer: Buffer, offset: number, header: Mp3FrameHeader): number[] {
+  const reader = new BitReader(buffer, offset + 4 + (header.protected ? 2 : 0))
+  const mpeg1 = header.version === "1"
+  const granules = mpeg1 ? 2 : 1
+  const levels: number[] = []
+
+  if (mpeg1) {
+    reader.skip(9 + (header.channels === 1 ? 5 : 3) + 4 * header.channels)
+  } else {
+    reader.skip(8 + (header.channels === 1 ? 1 : 2))
+  }
+
+  for (let granule = 0; granule < granules; granule++) {
+    let level = 0
+    for (let channel = 0; channel < header.channels; channel++) {
+      reader.skip(12 + 9) // part2_3_length, big_values
+      const globalGain = reader.read(8)
+      // scalefac_compress, window_switching_flag, block/region fields, then the trailing flags
+      reader.skip(mpeg1 ? 4 + 1 + 22 + 3 : 9 + 1 + 22 + 2)
+      level = Math.max(level, Math.pow(2, (globalGain - 210) / 4))
+    }
+    levels.push(level)
+  }
+
+  return levels
+}
+
+// Locate the MPEG audio stream between the ID3v2 tag and any ID3v1 tag
+function locateMp3Stream(buffer: Buffer) {
+  let offset = 0
+
+  // Skip the ID3v2 tag; its size is a 28-bit syncsafe integer
+  if (buffer.toString("ascii", 0, 3) === "ID3") {
+    if (buffer.length < 10) {
+      throw new AudioAnalysisError("MP3 ID3 tag is truncated")
+    }
+    const tagSize = (buffer[6] << 21) | (buffer[7] << 14) | (buffer[8] << 7) | buffer[9]
+    const hasFooter = (buffer[5] & 0x10) !== 0
+    offset = 10 + tagSize + (hasFooter ? 10 : 0)
+  }
+
+  // Trailing ID3v1 tag
+  let end = buffer.length
+  if (end - offset >= 128 && buffer.toString("ascii", end - 128, end - 125) === "TAG") {
+    end -= 128
+  }
+
+  // Find the first frame followed by a second valid frame, to avoid false sync words in padding
+  for (; offset + 4 <= end; offset++) {
+    const header = parseMp3FrameHeader(buffer, offset)
+    if (header && parseMp3FrameHeader(buffer, offset + header.frameLength)) {
+      return { first: header, start: offset, end }
+    }
+  }
+
+  throw new AudioAnalysisError("No MPEG audio frames found")
+}
+
+// A Xing/Info frame at the start of the stream holds encoder metadata, not audio
+function isInfoFrame(buffer: Buffer, offset: number, header: Mp3FrameHeader) {
+  const tagOffset = offset + sideInfoEnd(header)
+  return ["Xing", "Info"].includes(buffer.toString("ascii", tagOffset, tagOffset + 4))
+}
+
+function analyzeMp3(buffer: Buffer): AudioAnalysis {
+  const { first, start, end } = locateMp3Stream(buffer)
+  let offset = start
+
+  const audioStart = start
+  let totalSamples = 0
+  let frames = 0
+  const levels: number[] = []
+
+  while (offset + 4 <= end) {
+    const header = parseMp3FrameHeader(buffer, offset)
+    if (!header) break
+
+    if (offset + header.frameLength > end) {
+      throw new AudioAnalysisError("MP3 file is truncated")
+    }
+
+    if (frames > 0 || !isInfoFrame(buffer, offset, header)) {
+      totalSamples += header.samples
+      if (header.layer === 3) {
+        levels.push(...layer3GranuleLevels(buffer, offset, header))
+      }
+    }
+
+    frames++
+    offset += header.frameLength
+  }
+
+  // Anything left that is not a tag means the stream is damaged
+  const remaining = end - offset
+  const trailingTag = remaining > 0 && ["APETAGEX", "LYRICSBE"].includes(buffer.toString("ascii", offset, offset + 8))
+  if (remaining > 0 && !trailingTag && remaining > (end - audioStart) * 0.1) {
+    throw new AudioAnalysisError("MP3 stream is corrupt")
+  }
+
+  if (totalSamples === 0) {
+    throw new AudioAnalysisError("MP3 file contains no audio")
+  }
+
+  const duration = totalSamples / first.sampleRate
+  // One level per Layer III granule
+  const samplesPerLevel = 576
+
+  return {
+    format: "mp3",
+    duration,
+    sampleRate: first.sampleRate,
+    channels: first.channels,
+    bitrate: Math.round(((offset - audioStart) * 8) / duration),
+    bpm:
+      levels.length > 0 && duration >= MIN_TEMPO_SECONDS
+        ? estimateTempo(levels, first.sampleRate / samplesPerLevel)
+        : null,
+    waveformPeaks: levels.length > 0 ? normalizePeaks(downsamplePeaks(levels, waveformPoints)) : [],
+  }
+}
+
+// Offset of the Xing/Info tag within the first frame: after header, CRC and side information
+function sideInfoEnd(header: Mp3FrameHeader): number {
+  const mpeg1 = header.version === "1"
+  const sideInfo = mpeg1 ? (header.channels === 1 ? 17 : 32) : header.channels === 1 ? 9 : 17
+  return 4 + (header.protected ? 2 : 0) + sideInfo
+}
+
+// ---------------------------------------------------------------------------
+// Preview clips
+// ---------------------------------------------------------------------------
+
+/**
+ * Cut the public preview of an analysed upload, which never covers the whole riff
+ * @param buffer File contents
+ * @param analysis Analysis of the same file
+ * @returns Preview content and its MIME type
+ */
+export function createPreviewClip(buffer: Buffer, analysis: AudioAnalysis) {
+  const length = Math.min(previewClipSeconds, analysis.duration / 2)
+  const body = createClip(buffer, 0, length)
+
+  if (!body || body.length === 0) {
+    return null
+  }
+
+  return { body, contentType: analysis.format === "wav" ? "audio/wav" : "audio/mpeg", duration: length }
+}
+
+/**
+ * Cut a clip out of a WAV or MP3 file without re-encoding
+ * @param buffer File contents
+ * @param startSeconds Clip start
+ * @param lengthSeconds Clip length
+ * @returns Clip in the source format, or null if the format is not WAV or MP3
+ */
+export function createClip(buffer: Buffer, startSeconds: number, lengthSeconds: number): Buffer | null {
+  if (isWav(buffer)) {
+    return clipWav(buffer, startSeconds, lengthSeconds)
+  }
+
+  if (isMp3(buffer)) {
+    return clipMp3(buffer, startSeconds, lengthSeconds)
+  }
+
+  return null
+}
+
+function clipWav(buffer: Buffer, startSeconds: number, lengthSeconds: number): Buffer {
+  const { fmt, dataOffset, dataSize } = locateWavData(buffer)
+  const totalFrames = Math.floor(dataSize / fmt.blockAlign)
+  const startFrame = Math.min(totalFrames, Math.floor(startSeconds * fmt.sampleRate))
+  const endFrame = Math.min(totalFrames, startFrame + Math.floor(lengthSeconds * fmt.sampleRate))
+
+  // Keep every chunk before the data (fmt, LIST, ...) and rewrite the sizes
+  const header = Buffer.from(buffer.subarray(0, dataOffset))
+  const data = buffer.subarray(dataOffset + startFrame * fmt.blockAlign, dataOffset + endFrame * fmt.blockAlign)
+  const padding = Buffer.alloc(data.length % 2)
+
+  header.writeUInt32LE(header.length - 8 + data.length + padding.length, 4)
+  header.writeUInt32LE(data.length, dataOffset - 4)
+
+  return Buffer.concat([header, data, padding])
+}
+
+// Frames are copied whole; the first frame may reference bit-reservoir data from the
+// frame before it, which decoders handle as a few milliseconds of silence
+function clipMp3(buffer: Buffer, startSeconds: number, lengthSeconds: number): Buffer {
+  const { first, start, end } = locateMp3Stream(buffer)
+  const startSample = startSeconds * first.sampleRate
+  const endSample = startSample + lengthSeconds * first.sampleRate
+  const frames: Buffer[] = []
+  let offset = start
+  let position = 0
+
+  while (offset + 4 <= end && position < endSample) {
+    const header = parseMp3FrameHeader(buffer, offset)
+    if (!header || offset + header.frameLength > end) break
+
+    if (offset !== start || !isInfoFrame(buffer, offset, header)) {
+      if (position >= startSample) {
+        frames.push(buffer.subarray(offset, offset + header.frameLength))
+      }
+      position += header.samples
+    }
+
+    offset += header.frameLength
+  }
+
+  return Buffer.concat(frames)
+}
+
+// ---------------------------------------------------------------------------
+// Shared analysis
+// ---------------------------------------------------------------------------
+
+function downsamplePeaks(values: number[], points: number): number[] {
+  const count = Math.min(points, values.length)
+  const peaks = new Array<number>(count).fill(0)
+  for (let i = 0; i < values.length; i++) {
+    const slice = Math.floor((i * count) / values.length)
+    if (values[i] > peaks[slice]) peaks[slice] = values[i]
+  }
+  return peaks
+}
+
+function normalizePeaks(peaks: number[]): number[] {
+  const max = Math.max(...peaks)
+  if (max <= 0) {
+    return peaks.map(() => 0)
+  }
+  return peaks.map((peak) => Math.round((Math.min(peak, max) / max) * 1000) / 1000)
+}
+
+/**
+ * Estimate tempo from an energy envelope by autocorrelating its onset strength
+ * @param envelope Energy per hop
+ * @param envelopeRate Envelope values per second
+ * @returns Tempo in BPM, or null if no periodicity stands out
+ */
+function estimateTempo(envelope: number[], envelopeRate: number): number | null {
+  // Onset strength: positive energy changes only
+  const onsets = new Array<number>(Math.max(0, envelope.length - 1))
+  for (let i = 1; i < envelope.length; i++) {
+    onsets[i - 1] = Math.max(0, envelope[i] - envelope[i - 1])
+  }
+
+  const mean = onsets.reduce((sum, value) => sum + value, 0) / (onsets.length || 1)
+  const centered = onsets.map((value) => value - mean)
+
+  const minLag = Math.max(1, Math.floor((60 * envelopeRate) / MAX_BPM))
+  const maxLag = Math.ceil((60 * envelopeRate) / MIN_BPM)
+
+  if (centered.length < maxLag * 2) {
+    return null
+  }
+
+  let zeroLag = 0
+  for (const value of centered) zeroLag += value * value
+  if (zeroLag === 0) {
+    return null
+  }
+
+  let bestLag = 0
+  let bestScore = 0
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    let score = 0
+    for (let i = lag; i < centered.length; i++) {
+      score += centered[i] * centered[i - lag]
+    }
+    score /= centered.length - lag
+    if (score > bestScore) {
+      bestScore = score
+      bestLag = lag
+    }
+  }
+
+  // Require a clear periodic peak relative to the signal's own energy
+  if (bestLag === 0 || bestScore / (zeroLag / centered.length) < 0.1) {
+    return null
+  }
+
+  return Math.round((60 * envelopeRate * 10) / bestLag) / 10
+}
@@ -0,0 +1,220 @@
+import bcrypt from "bcrypt"
+import crypto from "crypto"
+import jwt from "jsonwebtoken"
+import { PrismaClient, type Prisma, type User } from "@prisma/client"
+import logger from "../../config/logger"
+
+const prisma = new PrismaClient()
+
+const jwtSecret = process.env.JWT_SECRET || "default_secret"
+const accessTokenTtl = process.env.ACCESS_TOKEN_TTL || "15m"
+const refreshTokenTtlDays = Number.parseInt(process.env.REFRESH_TOKEN_TTL_DAYS || "30", 10)
+const bcryptRounds = Number.parseInt(process.env.BCRYPT_ROUNDS || "10", 10)
+
+// Payload carried by access tokens
+export interface AccessTokenPayload {
+  id: string
+  type: "access"
+}
+
+/**
+ * Hash a plain-text password
+ * @param password Plain-text password
+ * @returns bcrypt hash
+ */
+export async function hashPassword(password: string): Promise<string> {
+  return bcrypt.hash(password, bcryptRounds)
+}
+
+/**
+ * Compare a plain-text password against a stored hash
+ * @param password Plain-text password
+ * @param passwordHash Stored bcrypt hash
+ * @returns Whether the password matches
+ */
+export async function verifyPassword(password: string, passwordHash: string): Promise<boolean> {
+  return bcrypt.compare(password, passwordHash)
+}
+
+/**
+ * Sign a short-lived access token for a user
+ * @param userId ID of the user
+ * @returns Signed JWT
+ */
+export function signAccessToken(userId: string): string {
+  const payload: AccessTokenPayload = { id: userId, type: "access" }
+  return jwt.sign(payload, jwtSecret, { expiresIn: accessTokenTtl } as jwt.SignOptions)
+}
+
+/**
+ * Verify an access token
+ * @param token Signed JWT
+ * @returns Decoded payload
+ */
+export function verifyAccessToken(token: string): AccessTokenPayload {
+  const decoded = jwt.verify(token, jwtSecret) as any
+
+  // Tokens issued before the auth router existed carry no type; anything else must be an access token
+  if (decoded.type && decoded.type !== "access") {
+    throw new Error("Invalid token type")
+  }
+
+  return decoded as AccessTokenPayload
+}
+
+// Refresh tokens are opaque; only their SHA-256 digest is stored
+function hashRefreshToken(token: string): string {
+  return crypto.createHash("sha256").update(token).digest("hex")
+}
+
+/**
+ * Create and persist a new refresh token for a user
+ * @param userId ID of the user
+ * @param tx Transaction to create it in (defaults to the shared client)
+ * @returns Object containing the plain refresh token and its record ID
+ */
+async function createRefreshToken(userId: string, tx: Prisma.TransactionClient = prisma) {
+  const token = crypto.randomBytes(48).toString("hex")
+  const expiresAt = new Date()
+  expiresAt.setDate(expiresAt.getDate() + refreshTokenTtlDays)
+
+  const record = await tx.refreshToken.create({
+    data: {
+      tokenHash: hashRefreshToken(token),
+      userId,
+      expiresAt,
+    },
+  })
+
+  return { token, id: record.id }
+}
+
+/**
+ * Issue a fresh access/refresh token pair for a user
+ * @param userId ID of the user
+ * @returns Token pair
+ */
+export async function issueTokens(userId: string) {
+  const accessToken = signAccessToken(userId)
+  const { token: refreshToken } = await createRefreshToken(userId)
+
+  logger.debug("Issued token pair", { userId })
+
+  return {
+    accessToken,
+    refreshToken,
+    tokenType: "Bearer",
+    expiresIn: accessTokenTtl,
+  }
+}
+
+/**
+ * Exchange a refresh token for a new token pair, revoking the old refresh token.
+ * Presenting an already revoked token is treated as theft and revokes every
+ * active refresh token of that user.
+ * @param refreshToken Plain refresh token
+ * @returns New token pair, or null if the token is invalid
+ */
+export async function rotateRefreshToken(refreshToken: string) {
+  const record = await prisma.refreshToken.findUnique({
+    where: { tokenHash: hashRefreshToken(refreshToken) },
+  })
+
+  if (!record) {
+    logger.warn("Refresh token not recognised")
+    return null
+  }
+
+  // Revoked tokens fall through to the reuse check below, expired or not
+  if (!record.revokedAt && record.expiresAt < new Date()) {
+    logger.warn("Refresh token expired", { tokenId: record.id, userId: record.userId })
+    return null
+  }
+
+  // Revoking is conditional, so of two concurrent refreshes with the same token only one wins;
+  // the other finds it already revoked and is treated as reuse
+  const rotated = await prisma.$transaction(async (tx) => {
+    const revoked = await tx.refreshToken.updateMany({
+      where: { id: record.id, revokedAt: null },
+      data: { revokedAt: new Date() },
+    })
+
+    if (revoked.count === 0) {
+      return null
+    }
+
+    const created = await createRefreshToken(record.userId, tx)
+
+    await tx.refreshToken.update({
+      where: { id: record.id },
+      data: { replacedBy: created.id },
+    })
+
+    return created
+  })
+
+  if (!rotated) {
+    logger.warn(`Revoked refresh token reused, revoking all sessions for user ${record.userId}`, {
+      tokenId: record.id,
+    })
+    await revokeAllRefreshTokens(record.userId)
+    return null
+  }
+
+  const { token: newRefreshToken, id: newTokenId } = rotated
+
+  logger.debug("Refresh token rotated", { userId: record.userId, oldTokenId: record.id, newTokenId })
+
+  return {
+    userId: record.userId,
+    accessToken: signAccessToken(record.userId),
+    refreshToken: newRefreshToken,
+    tokenType: "Bearer",
+    expiresIn: accessTokenTtl,
+  }
+}
+
+/**
+ * Revoke a single refresh token
+ * @param refreshToken Plain refresh token
+ * @returns Whether an active token was revoked
+ */
+export async function revokeRefreshToken(refreshToken: string): Promise<boolean> {
+  const result = await prisma.refreshToken.updateMany({
+    where: {
+      tokenHash: hashRefreshToken(refreshToken),
+      revokedAt: null,
+    },
+    data: { revokedAt: new Date() },
+  })
+
+  return result.count > 0
+}
+
+/**
+ * Revoke every active refresh token of a user
+ * @param userId ID of the user
+ * @returns Number of revoked tokens
+ */
+export async function revokeAllRefreshTokens(userId: string): Promise<number> {
+  const result = await prisma.refreshToken.updateMany({
+    where: {
+      userId,
+      revokedAt: null,
+    },
+    data: { revokedAt: new Date() },
+  })
+
+  logger.info(`Revoked ${result.count} refresh tokens for user ${userId}`)
+  return result.count
+}
+
+/**
+ * Strip credentials from a user record before it is sent to a client
+ * @param user User record
+ * @returns User without the password hash
+ */
+export function sanitizeUser<T extends Partial<User>>(user: T): Omit<T, "passwordHash"> {
+  const { passwordHash, ...rest } = user
+  return rest
+}
@@ -1,43 +1,104 @@
+import { ethers } from "ethers"
+import { getTokenMetadata, getTokenUri } from "./nftMetadataService"
 import logger from "../../config/logger"
 
-// Mock NFT contract ABI (simplified for example)
+// Minimal ERC-721 + royalty ABI used by the platform contract
 const nftContractAbi = [
   "function mint(address to, string uri) returns (uint256)",
   "function setRoyaltyInfo(uint256 tokenId, address receiver, uint96 royaltyPercentage)",
+  "function safeTransferFrom(address from, address to, uint256 tokenId)",
+  "function ownerOf(uint256 tokenId) view returns (address)",
+  "function tokenURI(uint256 tokenId) view returns (string)",
+  "event Transfer(address indexed from, address indexed to, uint256 indexed tokenId)",
 ]
 
+// "rpc" talks to BLOCKCHAIN_PROVIDER_URL (mainnet, testnet, anvil, hardhat); "mock" simulates the chain offline
+export type ChainMode = "rpc" | "mock"
+
+const chainMode: ChainMode =
+  (process.env.BLOCKCHAIN_MODE as ChainMode) || (process.env.BLOCKCHAIN_PROVIDER_URL ? "rpc" : "mock")
+const confirmations = Number.parseInt(process.env.BLOCKCHAIN_CONFIRMATIONS || "1", 10)
+const mockDelayMs = Number.parseInt(process.env.MOCK_CHAIN_DELAY_MS || "2000", 10)
+const defaultContractAddress = "0x1234567890123456789012345678901234567890"
+
+let provider: ethers.JsonRpcProvider | null = null
+let signer: ethers.Wallet | null = null
+let contract: ethers.Contract | null = null
+
+// Mock chain mode: tokenIds of submitted mint transactions, keyed by tx hash
+const mockMints = new Map<string, string>()
+
 // Interface for NFT metadata
-interface NFTMetadata {
+export interface NFTMetadata {
   title: string
   description: string
   coverImage?: string
   royaltyPercentage: number
+  // Address receiving the token; defaults to the platform signer
+  recipient?: string
+  // Address receiving royalties; defaults to the recipient
+  royaltyReceiver?: string
 }
 
 /**
- * Mint an NFT on the blockchain
- * @param contentUri URI pointing to the content (audio file)
- * @param metadata Metadata for the NFT
- * @returns Object containing tokenId and contractAddress
+ * Get the chain mode the service is running in
+ * @returns "rpc" or "mock"
  */
-export async function mintNFT(contentUri: string, metadata: NFTMetadata) {
-  try {
-    logger.info("Initiating NFT minting process", {
-      contentUri: contentUri.substring(0, 50) + "...", // Truncate for logging
-      title: metadata.title,
-    })
+export function getChainMode(): ChainMode {
+  return chainMode
+}
+
+/**
+ * Lazily connect the provider, signer and contract
+ * @returns Connected NFT contract and signer
+ */
+function getContract() {
+  if (contract && signer) {
+    return { contract, signer }
+  }
+
+  const providerUrl = process.env.BLOCKCHAIN_PROVIDER_URL
+  const privateKey = process.env.BLOCKCHAIN_PRIVATE_KEY
+  const contractAddress = process.env.NFT_CONTRACT_ADDRESS
+
+  if (!providerUrl || !privateKey || !contractAddress) {
+    throw new Error(
+      "BLOCKCHAIN_PROVIDER_URL, BLOCKCHAIN_PRIVATE_KEY and NFT_CONTRACT_ADDRESS are required outside mock chain mode",
+    )
+  }
 
-    // In a real implementation, this would connect to a blockchain
-    // For now, we'll simulate the minting process
+  provider = new ethers.JsonRpcProvider(providerUrl)
+  signer = new ethers.Wallet(privateKey, provider)
+  contract = new ethers.Contract(contractAddress, nftContractAbi, signer)
 
-    // Simulate blockchain delay
-    await new Promise((resolve) => setTimeout(resolve, 2000))
+  logger.info("Connected to blockchain provider", { contractAddress, signer: signer.address })
 
-    // Generate a random token ID
-    const tokenId = Math.floor(Math.random() * 1000000).toString()
-    const contractAddress = process.env.NFT_CONTRACT_ADDRESS || "0x1234567890123456789012345678901234567890"
+  return { contract, signer }
+}
+
+// Simulated confirmation delay for mock chain mode
+function simulateDelay(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms))
+}
+
+// Random 32-byte hex string, shaped like a transaction hash
+function randomHash() {
+  return ethers.hexlify(ethers.randomBytes(32))
+}
 
-    logger.info("NFT minted successfully", { tokenId, contractAddress })
+/**
+ * Build and sign a mint transaction without broadcasting it, so its hash can be recorded first
+ * @param tokenUri URI of the token metadata JSON
+ * @param metadata Metadata for the NFT
+ * @returns Hash and raw signed transaction (in mock chain mode the raw transaction is the hash)
+ */
+export async function prepareMint(tokenUri: string, metadata: NFTMetadata) {
+  try {
+    logger.info("Preparing NFT mint transaction", {
+      tokenUri: tokenUri.substring(0, 50) + "...", // Truncate for logging
+      title: metadata.title,
+      chainMode,
+    })
     logger.debug("NFT metadata", {
       title: metadata.title,
       description: metadata.description?.substring(0, 50) + "...", // Truncate for logging
@@ -45,16 +106,204 @@ export async function mintNFT(contentUri: string, metadata: NFTMetadata) {
       royaltyPercentage: metadata.royaltyPercentage,
     })
 
+    if (chainMode === "mock") {
+      const transactionHash = randomHash()
+
+      logger.info("Mint transaction prepared (mock chain)", { txHash: transactionHash })
+      return { transactionHash, signedTransaction: transactionHash }
+    }
+
+    const { contract, signer } = getContract()
+    const recipient = metadata.recipient || signer.address
+
+    // Populating fixes the nonce, so rebroadcasting the signed transaction can never mint twice
+    const request = await signer.populateTransaction(await contract.mint.populateTransaction(recipient, tokenUri))
+    const signedTransaction = await signer.signTransaction(request)
+    const transactionHash = ethers.Transaction.from(signedTransaction).hash!
+
+    logger.info("Mint transaction prepared", { txHash: transactionHash, recipient, nonce: request.nonce })
+
+    return { transactionHash, signedTransaction }
+  } catch (error) {
+    logger.error(`Error preparing mint transaction: ${error}`, {
+      tokenUri: tokenUri.substring(0, 50) + "...", // Truncate for logging
+      title: metadata.title,
+    })
+    throw new Error(`Failed to prepare mint transaction: ${error}`)
+  }
+}
+
+/**
+ * Broadcast a signed mint transaction. Broadcasting a transaction the chain already knows is harmless.
+ * @param signedTransaction Raw signed transaction from prepareMint
+ * @returns "sent", or "stale" if its nonce was taken by another transaction so it can never be mined
+ */
+export async function broadcastMint(signedTransaction: string): Promise<"sent" | "stale"> {
+  if (chainMode === "mock") {
+    if (!mockMints.has(signedTransaction)) {
+      mockMints.set(signedTransaction, Math.floor(Math.random() * 1000000).toString())
+    }
+
+    logger.info("Mint transaction submitted (mock chain)", { txHash: signedTransaction })
+    return "sent"
+  }
+
+  const { signer } = getContract()
+  const provider = signer.provider!
+  const transactionHash = ethers.Transaction.from(signedTransaction).hash!
+
+  try {
+    await provider.broadcastTransaction(signedTransaction)
+  } catch (error) {
+    // Already in the mempool or mined, e.g. sent before a restart
+    if (await provider.getTransaction(transactionHash)) {
+      logger.info("Mint transaction already known to the chain", { txHash: transactionHash })
+      return "sent"
+    }
+
+    if (ethers.isError(error, "NONCE_EXPIRED")) {
+      logger.warn("Mint transaction nonce was used by another transaction", { txHash: transactionHash })
+      return "stale"
+    }
+
+    logger.error(`Error broadcasting mint transaction: ${error}`, { txHash: transactionHash })
+    throw new Error(`Failed to submit mint transaction: ${error}`)
+  }
+
+  logger.info("Mint transaction submitted", { txHash: transactionHash })
+  return "sent"
+}
+
+/**
+ * Sign and broadcast a mint transaction without waiting for it to be mined
+ * @param tokenUri URI of the token metadata JSON
+ * @param metadata Metadata for the NFT
+ * @returns Hash of the submitted mint transaction
+ */
+export async function submitMint(tokenUri: string, metadata: NFTMetadata) {
+  const { transactionHash, signedTransaction } = await prepareMint(tokenUri, metadata)
+
+  if ((await broadcastMint(signedTransaction)) === "stale") {
+    throw new Error(`Failed to submit mint transaction: nonce already used (${transactionHash})`)
+  }
+
+  return { transactionHash }
+}
+
+/**
+ * Look up the outcome of a previously submitted mint transaction
+ * @param transactionHash Hash of the mint transaction
+ * @returns "pending" while unmined, "succeeded" or "failed" once mined, "dropped" if the chain does not know it
+ */
+export async function getMintTransactionState(
+  transactionHash: string,
+): Promise<"pending" | "succeeded" | "failed" | "dropped"> {
+  if (chainMode === "mock") {
+    return mockMints.has(transactionHash) ? "succeeded" : "dropped"
+  }
+
+  const { signer } = getContract()
+  const provider = signer.provider!
+
+  const receipt = await provider.getTransactionReceipt(transactionHash)
+  if (receipt) {
+    return receipt.status === 1 ? "succeeded" : "failed"
+  }
+
+  const tx = await provider.getTransaction(transactionHash)
+  return tx ? "pending" : "dropped"
+}
+
+/**
+ * Wait for a mint transaction, read the minted tokenId and set its royalty info
+ * @param transactionHash Hash of the mint transaction
+ * @param metadata Metadata for the NFT
+ * @returns Object containing tokenId and contractAddress
+ */
+export async function confirmMint(transactionHash: string, metadata: NFTMetadata) {
+  try {
+    logger.info("Waiting for mint transaction", { txHash: transactionHash, chainMode })
+
+    if (chainMode === "mock") {
+      await simulateDelay(mockDelayMs)
+
+      const tokenId = mockMints.get(transactionHash)
+      if (!tokenId) {
+        throw new Error(`Unknown mint transaction: ${transactionHash}`)
+      }
+
+      const contractAddress = process.env.NFT_CONTRACT_ADDRESS || defaultContractAddress
+      logger.info("NFT minted successfully (mock chain)", { tokenId, contractAddress })
+
+      return {
+        tokenId,
+        contractAddress,
+      }
+    }
+
+    const { contract, signer } = getContract()
+
+    const receipt = await signer.provider!.waitForTransaction(transactionHash, confirmations)
+    if (!receipt || receipt.status !== 1) {
+      throw new Error(`Mint transaction failed: ${transactionHash}`)
+    }
+
+    // The minted tokenId comes from the Transfer(0x0 -> recipient) event
+    let tokenId: string | null = null
+    let recipient: string | null = null
+    for (const log of receipt.logs) {
+      const parsed = contract.interface.parseLog(log)
+      if (parsed?.name === "Transfer" && parsed.args.from === ethers.ZeroAddress) {
+        tokenId = parsed.args.tokenId.toString()
+        recipient = parsed.args.to
+        break
+      }
+    }
+
+    if (tokenId === null || recipient === null) {
+      throw new Error(`No Transfer event found in mint receipt: ${transactionHash}`)
+    }
+
+    // Royalties are stored on-chain in basis points
+    const royaltyReceiver = metadata.royaltyReceiver || recipient
+    const royaltyBasisPoints = Math.round(metadata.royaltyPercentage * 100)
+    const royaltyTx = await contract.setRoyaltyInfo(tokenId, royaltyReceiver, royaltyBasisPoints)
+    await royaltyTx.wait(confirmations)
+
+    const contractAddress = await contract.getAddress()
+
+    logger.info("NFT minted successfully", {
+      tokenId,
+      contractAddress,
+      txHash: receipt.hash,
+      blockNumber: receipt.blockNumber,
+      royaltyBasisPoints,
+    })
+
     return {
       tokenId,
       contractAddress,
     }
   } catch (error) {
-    logger.error(`Error minting NFT: ${error}`, {
-      contentUri: contentUri.substring(0, 50) + "...", // Truncate for logging
-      title: metadata.title,
-    })
-    throw new Error(`Failed to mint NFT: ${error}`)
+    logger.error(`Error confirming mint transaction: ${error}`, { txHash: transactionHash })
+    throw new Error(`Failed to confirm mint: ${error}`)
+  }
+}
+
+/**
+ * Mint an NFT on the blockchain and wait for it to be confirmed
+ * @param tokenUri URI of the token metadata JSON
+ * @param metadata Metadata for the NFT
+ * @returns Object containing tokenId, contractAddress and the mint transaction hash
+ */
+export async function mintNFT(tokenUri: string, metadata: NFTMetadata) {
+  const { transactionHash } = await submitMint(tokenUri, metadata)
+  const { tokenId, contractAddress } = await confirmMint(transactionHash, metadata)
+
+  return {
+    tokenId,
+    contractAddress,
+    transactionHash,
   }
 }
 
@@ -67,24 +316,35 @@ export async function mintNFT(contentUri: string, metadata: NFTMetadata) {
  */
 export async function transferNFT(tokenId: string, fromAddress: string, toAddress: string) {
   try {
-    logger.info("Initiating NFT transfer", { tokenId, fromAddress, toAddress })
+    logger.info("Initiating NFT transfer", { tokenId, fromAddress, toAddress, chainMode })
 
-    // Simulate blockchain delay
-    await new Promise((resolve) => setTimeout(resolve, 1500))
+    if (chainMode === "mock") {
+      await simulateDelay(mockDelayMs)
 
-    // Generate a random transaction hash
-    const txHash =
-      "0x" +
-      Array(64)
-        .fill(0)
-        .map(() => Math.floor(Math.random() * 16).toString(16))
-        .join("")
+      const txHash = randomHash()
+      logger.info("NFT transferred successfully (mock chain)", { tokenId, txHash })
+
+      return {
+        transactionHash: txHash,
+        blockNumber: Math.floor(Math.random() * 1000000),
+      }
+    }
 
-    logger.info("NFT transferred successfully", { tokenId, txHash })
+    const { contract } = getContract()
+
+    const tx = await contract.safeTransferFrom(fromAddress, toAddress, tokenId)
+    logger.debug("Transfer transaction submitted", { tokenId, txHash: tx.hash })
+
+    const receipt: ethers.TransactionReceipt | null = await tx.wait(confirmations)
+    if (!receipt || receipt.status !== 1) {
+      throw new Error(`Transfer transaction failed: ${tx.hash}`)
+    }
+
+    logger.info("NFT transferred successfully", { tokenId, txHash: receipt.hash, blockNumber: receipt.blockNumber })
 
     return {
-      transactionHash: txHash,
-      blockNumber: Math.floor(Math.random() * 1000000),
+      transactionHash: receipt.hash,
+      blockNumber: receipt.blockNumber,
     }
   } catch (error) {
     logger.error(`Error transferring NFT: ${error}`, { tokenId, fromAddress, toAddress })
@@ -92,6 +352,30 @@ export async function transferNFT(tokenId: string, fromAddress: string, toAddres
   }
 }
 
+/**
+ * Get the current on-chain owner of a token
+ * @param tokenId ID of the token
+ * @param contractAddress Address of the NFT contract
+ * @returns Owner address, or null in mock chain mode where ownership only lives in the database
+ */
+export async function getTokenOwner(tokenId: string, contractAddress: string): Promise<string | null> {
+  if (chainMode === "mock") {
+    return null
+  }
+
+  try {
+    const { signer } = getContract()
+    const tokenContract = new ethers.Contract(contractAddress, nftContractAbi, signer)
+    const owner: string = await tokenContract.ownerOf(tokenId)
+
+    logger.debug("Token owner retrieved", { tokenId, owner })
+    return owner
+  } catch (error) {
+    logger.error(`Error fetching token owner: ${error}`, { tokenId, contractAddress })
+    throw new Error(`Failed to fetch token owner: ${error}`)
+  }
+}
+
 /**
  * Get NFT metadata from the blockchain
  * @param tokenId ID of the token
@@ -100,28 +384,39 @@ export async function transferNFT(tokenId: string, fromAddress: string, toAddres
  */
 export async function getNFTMetadata(tokenId: string, contractAddress: string) {
   try {
-    logger.info("Fetching NFT metadata", { tokenId, contractAddress })
-
-    // Simulate blockchain delay
-    await new Promise((resolve) => setTimeout(resolve, 1000))
-
-    // In a real implementation, this would fetch the actual metadata
-    // For now, we'll return mock data
-    const metadata = {
-      name: `RIFF #${tokenId}`,
-      description: "A unique audio riff on the blockchain",
-      image: "https://example.com/nft-image.jpg",
-      animation_url: "https://example.com/audio.mp3",
-      attributes: [
-        { trait_type: "Genre", value: "Electronic" },
-        { trait_type: "BPM", value: "128" },
-        { trait_type: "Duration", value: "1:45" },
-      ],
+    logger.info("Fetching NFT metadata", { tokenId, contractAddress, chainMode })
+
+    if (chainMode === "mock") {
+      await simulateDelay(mockDelayMs / 2)
+
+      // The mock chain has no token URIs; serve what the metadata endpoint would
+      const metadata = { ...(await getTokenMetadata(tokenId)), tokenURI: getTokenUri(tokenId) }
+
+      logger.debug("NFT metadata retrieved (mock chain)", { tokenId, metadata })
+      return metadata
+    }
+
+    const { signer } = getContract()
+    const tokenContract = new ethers.Contract(contractAddress, nftContractAbi, signer)
+
+    const [owner, tokenURI]: [string, string] = await Promise.all([
+      tokenContract.ownerOf(tokenId),
+      tokenContract.tokenURI(tokenId),
+    ])
+
+    let metadata: Record<string, any> = { tokenURI }
+
+    // Resolve off-chain JSON metadata when the token URI points at it
+    if (tokenURI.startsWith("http://") || tokenURI.startsWith("https://")) {
+      const response = await fetch(tokenURI)
+      if (response.ok && response.headers.get("content-type")?.includes("application/json")) {
+        metadata = { ...((await response.json()) as Record<string, any>), tokenURI }
+      }
     }
 
-    logger.debug("NFT metadata retrieved", { tokenId, metadata })
+    logger.debug("NFT metadata retrieved", { tokenId, owner })
 
-    return metadata
+    return { ...metadata, owner }
   } catch (error) {
     logger.error(`Error fetching NFT metadata: ${error}`, { tokenId, contractAddress })
     throw new Error(`Failed to get NFT metadata: ${error}`)
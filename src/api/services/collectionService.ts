@@ -0,0 +1,108 @@
+import { PrismaClient } from "@prisma/client"
+import logger from "../../config/logger"
+
+const prisma = new PrismaClient()
+
+export const MAX_COLLECTION_NAME_LENGTH = 100
+export const MAX_COLLECTION_DESCRIPTION_LENGTH = 2000
+
+// Aggregates shown on public collection pages
+export interface CollectionStats {
+  riffCount: number
+  totalDuration: number
+  mintedCount: number
+  listedCount: number
+  tipCount: number
+  tipTotal: number
+  // Distinct users with an active stake on any riff of the collection
+  stakerCount: number
+  totalStaked: number
+}
+
+/**
+ * Check that a riff may be put into a collection: the collection must exist and belong to the riff's artist
+ * @param userId ID of the artist
+ * @param collectionId ID of the target collection
+ * @returns Error and status, or null if the assignment is allowed
+ */
+export async function checkCollectionAssignment(
+  userId: string,
+  collectionId: string,
+): Promise<{ error: string; status: 400 | 403 } | null> {
+  const collection = await prisma.collection.findUnique({
+    where: { id: collectionId },
+    select: { userId: true },
+  })
+
+  if (!collection) {
+    return { error: `Collection not found: ${collectionId}`, status: 400 }
+  }
+
+  if (collection.userId !== userId) {
+    logger.warn(`Attempted to use another user's collection: ${collectionId}`, {
+      requestUserId: userId,
+      ownerUserId: collection.userId,
+    })
+    return { error: "Not authorized to add riffs to this collection", status: 403 }
+  }
+
+  return null
+}
+
+/**
+ * Position for a new collection, after the artist's existing ones
+ * @param userId ID of the artist
+ * @returns Next free position
+ */
+export async function nextCollectionPosition(userId: string): Promise<number> {
+  const last = await prisma.collection.aggregate({
+    where: { userId },
+    _max: { position: true },
+  })
+
+  return (last._max.position ?? -1) + 1
+}
+
+/**
+ * Compute the aggregate stats of a collection
+ * @param collectionId ID of the collection
+ * @returns Riff, NFT, tip and staking aggregates
+ */
+export async function getCollectionStats(collectionId: string): Promise<CollectionStats> {
+  const inCollection = { riff: { collectionId } }
+
+  const [riffs, nfts, tips, stakes] = await Promise.all([
+    prisma.riff.aggregate({
+      where: { collectionId },
+      _count: { _all: true },
+      _sum: { duration: true },
+    }),
+    prisma.nFT.groupBy({
+      by: ["isListed"],
+      where: { ...inCollection, status: "confirmed" },
+      _count: { _all: true },
+    }),
+    prisma.tip.aggregate({
+      where: inCollection,
+      _count: { _all: true },
+      _sum: { amount: true },
+    }),
+    // Grouped per staker so each user is counted once
+    prisma.staking.groupBy({
+      by: ["userId"],
+      where: { ...inCollection, status: { not: "withdrawn" } },
+      _sum: { amount: true },
+    }),
+  ])
+
+  return {
+    riffCount: riffs._count._all,
+    totalDuration: riffs._sum.duration ?? 0,
+    mintedCount: nfts.reduce((sum, group) => sum + group._count._all, 0),
+    listedCount: nfts.find((group) => group.isListed)?._count._all ?? 0,
+    tipCount: tips._count._all,
+    tipTotal: tips._sum.amount ?? 0,
+    stakerCount: stakes.length,
+    totalStaked: stakes.reduce((sum, group) => sum + (group._sum.amount ?? 0), 0),
+  }
+}
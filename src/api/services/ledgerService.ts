@@ -0,0 +1,203 @@
+import { PrismaClient, type Prisma } from "@prisma/client"
+import { roundAmount } from "../utils/amounts"
+import logger from "../../config/logger"
+
+const prisma = new PrismaClient()
+
+// Platform-owned accounts. The treasury issues purchased tokens and may go negative.
+export const SYSTEM_ACCOUNTS = {
+  treasury: "system:treasury",
+  staking: "system:staking",
+  // Holds a buyer's payment while the NFT transfer is in flight
+  escrow: "system:escrow",
+}
+
+// Currency of the ledger; NFT sales can only be settled in it
+export const LEDGER_CURRENCY = "RIFF"
+
+// Thrown when a posting would take an account below zero
+export class InsufficientBalanceError extends Error {
+  constructor(
+    public accountCode: string,
+    public requested: number,
+  ) {
+    super(`Insufficient balance in ${accountCode} for ${requested}`)
+    this.name = "InsufficientBalanceError"
+  }
+}
+
+// One leg of a ledger transaction: positive credits, negative debits
+export interface LedgerLeg {
+  accountCode: string
+  amount: number
+}
+
+export interface LedgerPosting {
+  type: string
+  reference?: string
+  memo?: string
+  legs: LedgerLeg[]
+}
+
+/**
+ * Ledger account code of a user
+ * @param userId ID of the user
+ * @returns Account code
+ */
+export function userAccountCode(userId: string): string {
+  return `user:${userId}`
+}
+
+/**
+ * Parse a user-supplied token amount
+ * @param value Raw amount from the request
+ * @returns Positive amount, or null if invalid
+ */
+export function parseAmount(value: unknown): number | null {
+  const amount = typeof value === "number" ? value : Number.parseFloat(String(value))
+  if (!Number.isFinite(amount) || amount <= 0) {
+    return null
+  }
+  return roundAmount(amount)
+}
+
+/**
+ * Find or create the ledger account for a code
+ * @param tx Prisma transaction client
+ * @param accountCode Account code
+ * @returns Ledger account
+ */
+async function ensureAccount(tx: Prisma.TransactionClient, accountCode: string) {
+  const userId = accountCode.startsWith("user:") ? accountCode.slice("user:".length) : null
+
+  return tx.ledgerAccount.upsert({
+    where: { code: accountCode },
+    update: {},
+    create: {
+      code: accountCode,
+      userId,
+      allowNegative: accountCode === SYSTEM_ACCOUNTS.treasury,
+    },
+  })
+}
+
+/**
+ * Post a balanced multi-leg transaction. Debits are guarded so that no account
+ * (other than the treasury) can go below zero, even under concurrent postings.
+ * Must run inside a Prisma transaction so a rejected leg rolls back the whole posting.
+ * @param tx Prisma transaction client
+ * @param posting Transaction type, reference and legs
+ * @returns The ledger transaction with its entries
+ */
+export async function postTransaction(tx: Prisma.TransactionClient, posting: LedgerPosting) {
+  const legs = posting.legs
+    .map((leg) => ({ accountCode: leg.accountCode, amount: roundAmount(leg.amount) }))
+    .filter((leg) => leg.amount !== 0)
+
+  const total = roundAmount(legs.reduce((sum, leg) => sum + leg.amount, 0))
+  if (total !== 0) {
+    throw new Error(`Unbalanced ledger transaction (${posting.type}): legs sum to ${total}`)
+  }
+
+  const entries: { accountId: string; amount: number }[] = []
+
+  for (const leg of legs) {
+    const account = await ensureAccount(tx, leg.accountCode)
+
+    if (leg.amount < 0 && !account.allowNegative) {
+      // Conditional decrement: only succeeds if the balance still covers the debit
+      const debited = await tx.ledgerAccount.updateMany({
+        where: { id: account.id, balance: { gte: -leg.amount } },
+        data: { balance: { increment: leg.amount } },
+      })
+
+      if (debited.count === 0) {
+        throw new InsufficientBalanceError(leg.accountCode, -leg.amount)
+      }
+    } else {
+      await tx.ledgerAccount.update({
+        where: { id: account.id },
+        data: { balance: { increment: leg.amount } },
+      })
+    }
+
+    entries.push({ accountId: account.id, amount: leg.amount })
+  }
+
+  const transaction = await tx.ledgerTransaction.create({
+    data: {
+      type: posting.type,
+      reference: posting.reference,
+      memo: posting.memo,
+      entries: { create: entries },
+    },
+    include: { entries: true },
+  })
+
+  logger.debug(`Ledger transaction posted: ${transaction.id}`, {
+    type: posting.type,
+    reference: posting.reference,
+    legs: legs.length,
+  })
+
+  return transaction
+}
+
+/**
+ * Post a simple two-leg transfer between accounts
+ * @param tx Prisma transaction client
+ * @param type Transaction type
+ * @param fromCode Debited account code
+ * @param toCode Credited account code
+ * @param amount Positive amount
+ * @param reference Optional reference to the business record
+ * @param memo Optional free-text memo
+ * @returns The ledger transaction with its entries
+ */
+export async function postTransfer(
+  tx: Prisma.TransactionClient,
+  type: string,
+  fromCode: string,
+  toCode: string,
+  amount: number,
+  reference?: string,
+  memo?: string,
+) {
+  return postTransaction(tx, {
+    type,
+    reference,
+    memo,
+    legs: [
+      { accountCode: fromCode, amount: -amount },
+      { accountCode: toCode, amount },
+    ],
+  })
+}
+
+/**
+ * Get the available balance of a user
+ * @param userId ID of the user
+ * @returns Balance (0 if the user has no account yet)
+ */
+export async function getUserBalance(userId: string): Promise<number> {
+  const account = await prisma.ledgerAccount.findUnique({
+    where: { code: userAccountCode(userId) },
+  })
+
+  return account?.balance ?? 0
+}
+
+/**
+ * Get ledger entries of a user, newest first
+ * @param userId ID of the user
+ * @param limit Maximum number of entries
+ * @returns Entries with their transactions
+ */
+export async function getUserEntries(userId: string, limit = 50) {
+  return prisma.ledgerEntry.findMany({
+    where: { account: { code: userAccountCode(userId) } },
+    orderBy: { createdAt: "desc" },
+    take: limit,
+    include: { transaction: true },
+  })
+}
@@ -0,0 +1,270 @@
+import { PrismaClient, type Prisma } from "@prisma/client"
+import { getUnlockableAccess } from "./unlockableService"
+import { roundAmount } from "../utils/amounts"
+import { publicUserSelect } from "../utils/projections"
+import logger from "../../config/logger"
+
+const prisma = new PrismaClient()
+
+// Percent of a derivative's earnings passed to its parents; each parent passes the same share of that further up
+const upstreamSharePercent = Number.parseFloat(process.env.REMIX_UPSTREAM_SHARE || "10")
+
+export const MAX_PARENT_RIFFS = 5
+// Deepest ancestor paid or returned in a tree
+export const MAX_LINEAGE_DEPTH = 10
+// Trees of heavily remixed riffs are cut off after this many nodes
+const MAX_TREE_NODES = 500
+
+export interface RemixGrant {
+  parentId: string
+  grantedBy: "artist" | "owner" | "wallet"
+}
+
+/**
+ * Read the parent riffs an upload declares
+ * @param value `parentRiffIds` from the request: an array, or a comma-separated string from multipart forms
+ * @returns Unique parent IDs, or null if the value is malformed
+ */
+export function parseParentRiffIds(value: unknown): string[] | null {
+  if (value === undefined || value === null || value === "") {
+    return []
+  }
+
+  const ids = Array.isArray(value) ? value : typeof value === "string" ? value.split(",") : null
+  if (!ids || !ids.every((id) => typeof id === "string")) {
+    return null
+  }
+
+  return [...new Set(ids.map((id: string) => id.trim()).filter((id) => id !== ""))]
+}
+
+/**
+ * Check that a user may remix each parent riff: they are its artist, or they hold its NFT
+ * (on record or through a verified wallet) and the NFT grants remix rights
+ * @param userId ID of the uploader
+ * @param parentIds IDs of the declared parent riffs
+ * @returns How each remix is granted, or the reason one is not
+ */
+export async function checkRemixRights(
+  userId: string,
+  parentIds: string[],
+): Promise<{ grants: RemixGrant[]; error?: undefined } | { grants?: undefined; error: string; status: 400 | 403 }> {
+  if (parentIds.length > MAX_PARENT_RIFFS) {
+    return { error: `A riff can have at most ${MAX_PARENT_RIFFS} parent riffs`, status: 400 }
+  }
+
+  const parents = await prisma.riff.findMany({
+    where: { id: { in: parentIds } },
+    include: { nft: true },
+  })
+
+  const grants: RemixGrant[] = []
+
+  for (const parentId of parentIds) {
+    const parent = parents.find((riff) => riff.id === parentId)
+
+    if (!parent) {
+      return { error: `Parent riff not found: ${parentId}`, status: 400 }
+    }
+
+    if (parent.userId === userId) {
+      grants.push({ parentId, grantedBy: "artist" })
+      continue
+    }
+
+    const access = parent.nft?.unlockRemixRights
+      ? await getUnlockableAccess({ ...parent.nft, riff: parent }, userId)
+      : null
+
+    if (!access || access.role === "artist") {
+      logger.warn(`Remix rights check failed for parent riff: ${parentId}`, {
+        requestUserId: userId,
+        ownerUserId: parent.nft?.ownerId,
+        unlockRemixRights: parent.nft?.unlockRemixRights ?? false,
+      })
+      return { error: `You do not hold remix rights to riff ${parentId}`, status: 403 }
+    }
+
+    grants.push({ parentId, grantedBy: access.role })
+  }
+
+  return { grants }
+}
+
+interface UpstreamShare {
+  ancestorId: string
+  recipientId: string
+  depth: number
+  amount: number
+}
+
+/**
+ * Split the upstream share of an earning among a riff's ancestors, one generation at a time.
+ * An ancestor reachable along several paths gets one share: what reached it minus what it passed on.
+ * @param tx Prisma transaction client
+ * @param riffId ID of the earning riff
+ * @param amount Amount earned
+ * @returns Share of each ancestor, at the depth it was first reached
+ */
+async function splitUpstream(tx: Prisma.TransactionClient, riffId: string, amount: number): Promise<UpstreamShare[]> {
+  const shares = new Map<string, UpstreamShare>()
+  if (upstreamSharePercent <= 0) {
+    return []
+  }
+
+  // Amount that reached each riff of the current generation
+  let frontier = new Map<string, number>([[riffId, amount]])
+
+  for (let depth = 1; depth <= MAX_LINEAGE_DEPTH && frontier.size > 0; depth++) {
+    const edges = await tx.riffLineage.findMany({
+      where: { childId: { in: [...frontier.keys()] } },
+      orderBy: [{ createdAt: "asc" }, { id: "asc" }],
+      include: { parent: { select: { id: true, userId: true } } },
+    })
+
+    const parentsByChild = new Map<string, { id: string; userId: string }[]>()
+    for (const edge of edges) {
+      parentsByChild.set(edge.childId, [...(parentsByChild.get(edge.childId) ?? []), edge.parent])
+    }
+
+    const next = new Map<string, number>()
+
+    for (const [childId, received] of frontier) {
+      const parents = parentsByChild.get(childId) ?? []
+      const perParent = parents.length > 0 ? roundAmount((received * upstreamSharePercent) / 100 / parents.length) : 0
+      if (perParent <= 0) {
+        continue
+      }
+
+      const child = shares.get(childId)
+      if (child) {
+        child.amount -= perParent * parents.length
+      }
+
+      for (const parent of parents) {
+        next.set(parent.id, (next.get(parent.id) ?? 0) + perParent)
+        if (!shares.has(parent.id)) {
+          shares.set(parent.id, { ancestorId: parent.id, recipientId: parent.userId, depth, amount: 0 })
+        }
+      }
+    }
+
+    for (const [parentId, received] of next) {
+      shares.get(parentId)!.amount += received
+    }
+
+    frontier = next
+  }
+
+  return [...shares.values()].map((share) => ({ ...share, amount: roundAmount(share.amount) }))
+}
+
+/**
+ * Pass the upstream share of a derivative's earnings to the artists of its ancestors and record the payouts.
+ * Must run inside the transaction that records the event; the caller credits the amounts on the ledger.
+ * @param tx Prisma transaction client
+ * @param event Earning riff, amount and the tip or sale it came from
+ * @returns Amount kept by the riff's artist and the recorded payouts
+ */
+export async function distributeUpstream(
+  tx: Prisma.TransactionClient,
+  event: { source: string; sourceId: string; riffId: string; amount: number; currency: string },
+) {
+  const shares = (await splitUpstream(tx, event.riffId, event.amount)).filter((share) => share.amount > 0)
+
+  const payouts = []
+  for (const share of shares) {
+    payouts.push(
+      await tx.lineagePayout.create({
+        data: {
+          source: event.source,
+          sourceId: event.sourceId,
+          riffId: event.riffId,
+          currency: event.currency,
+          ...share,
+        },
+      }),
+    )
+  }
+
+  // The derivative's artist absorbs rounding dust
+  const retained = roundAmount(event.amount - payouts.reduce((sum, payout) => sum + payout.amount, 0))
+
+  if (payouts.length > 0) {
+    logger.info(`Upstream royalties distributed for riff ${event.riffId}`, {
+      source: event.source,
+      sourceId: event.sourceId,
+      amount: event.amount,
+      retained,
+      ancestors: payouts.length,
+    })
+  }
+
+  return { retained, payouts }
+}
+
+const lineageRiffSelect = {
+  id: true,
+  title: true,
+  coverImageUrl: true,
+  previewUrl: true,
+  createdAt: true,
+  user: { select: publicUserSelect },
+}
+
+type LineageRiff = Prisma.RiffGetPayload<{ select: typeof lineageRiffSelect }>
+
+export interface LineageNode {
+  riff: LineageRiff
+  grantedBy: string
+  linkedAt: Date
+  // Parents in an ancestor tree, remixes in a descendant tree
+  nodes: LineageNode[]
+}
+
+/**
+ * Build the ancestor or descendant tree of a riff. A riff reachable along several paths appears once per path.
+ * @param riffId ID of the riff
+ * @param direction "ancestors" walks up to parent riffs, "descendants" down to remixes
+ * @param maxDepth Number of generations to include
+ * @returns Tree below the riff, and whether it was cut off at MAX_TREE_NODES
+ */
+export async function getLineageTree(riffId: string, direction: "ancestors" | "descendants", maxDepth: number) {
+  const upward = direction === "ancestors"
+  const root: LineageNode[] = []
+  let frontier = new Map<string, LineageNode[][]>([[riffId, [root]]])
+  let count = 0
+  let truncated = false
+
+  for (let depth = 1; depth <= maxDepth && frontier.size > 0 && !truncated; depth++) {
+    const edges = await prisma.riffLineage.findMany({
+      where: upward ? { childId: { in: [...frontier.keys()] } } : { parentId: { in: [...frontier.keys()] } },
+      orderBy: [{ createdAt: "asc" }, { id: "asc" }],
+      include: { parent: { select: lineageRiffSelect }, child: { select: lineageRiffSelect } },
+    })
+
+    const next = new Map<string, LineageNode[][]>()
+
+    for (const edge of edges) {
+      const from = upward ? edge.childId : edge.parentId
+      const riff = upward ? edge.parent : edge.child
+
+      for (const siblings of frontier.get(from) ?? []) {
+        if (count >= MAX_TREE_NODES) {
+          truncated = true
+          break
+        }
+
+        const node: LineageNode = { riff, grantedBy: edge.grantedBy, linkedAt: edge.createdAt, nodes: [] }
+        siblings.push(node)
+        count++
+
+        next.set(riff.id, [...(next.get(riff.id) ?? []), node.nodes])
+      }
+    }
+
+    frontier = next
+  }
+
+  return { nodes: root, truncated }
+}
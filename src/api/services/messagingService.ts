@@ -0,0 +1,132 @@
+import { Prisma, PrismaClient, type Conversation, type NFT } from "@prisma/client"
+import logger from "../../config/logger"
+
+const prisma = new PrismaClient()
+
+export const MAX_MESSAGE_LENGTH = 5000
+
+export interface ConversationAccess {
+  role: "artist" | "holder"
+  // False once the holder no longer owns the NFT or the artist turned private messages off
+  canSend: boolean
+}
+
+/**
+ * Check whether an NFT currently offers a messaging channel to the given holder
+ * @param nft NFT the conversation is about
+ * @param holderId ID of the holder participant
+ * @returns Whether the holder may message the artist
+ */
+export function isChannelOpen(nft: Pick<NFT, "status" | "unlockPrivateMessages" | "ownerId">, holderId: string) {
+  return nft.status === "confirmed" && nft.unlockPrivateMessages && nft.ownerId === holderId
+}
+
+/**
+ * Check a user's access to a conversation. Ownership is re-checked on every request, so a
+ * former holder is locked out as soon as the NFT changes hands.
+ * @param conversation Conversation with its NFT
+ * @param userId ID of the requesting user
+ * @returns Access of the user, or null if they may not see the conversation
+ */
+export function getConversationAccess(
+  conversation: Conversation & { nft: NFT },
+  userId: string,
+): ConversationAccess | null {
+  const open = isChannelOpen(conversation.nft, conversation.holderId)
+
+  if (conversation.artistId === userId) {
+    return { role: "artist", canSend: open }
+  }
+
+  if (conversation.holderId === userId && open) {
+    return { role: "holder", canSend: true }
+  }
+
+  return null
+}
+
+/**
+ * Open the conversation between an NFT's artist and its current holder, or return the existing one
+ * @param nft NFT with the artist's user ID
+ * @param artistId ID of the riff's artist
+ * @returns Conversation and whether it was created
+ */
+export async function openConversation(nft: NFT, artistId: string) {
+  const where = { nftId_holderId: { nftId: nft.id, holderId: nft.ownerId } }
+  const existing = await prisma.conversation.findUnique({ where })
+
+  if (existing) {
+    return { conversation: existing, created: false }
+  }
+
+  let conversation: Conversation
+  try {
+    conversation = await prisma.conversation.create({
+      data: { nftId: nft.id, artistId, holderId: nft.ownerId },
+    })
+  } catch (error) {
+    // A concurrent request opened the same conversation first
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+      return { conversation: await prisma.conversation.findUniqueOrThrow({ where }), created: false }
+    }
+    throw error
+  }
+
+  logger.info(`Conversation opened: ${conversation.id}`, { nftId: nft.id, artistId, holderId: nft.ownerId })
+  return { conversation, created: true }
+}
+
+/**
+ * Add a message to a conversation
+ * @param conversationId ID of the conversation
+ * @param senderId ID of the sender
+ * @param body Message text
+ * @returns Created message
+ */
+export async function sendMessage(conversationId: string, senderId: string, body: string) {
+  const message = await prisma.$transaction(async (tx) => {
+    const created = await tx.message.create({
+      data: { conversationId, senderId, body },
+    })
+    await tx.conversation.update({
+      where: { id: conversationId },
+      data: { lastMessageAt: created.createdAt },
+    })
+    return created
+  })
+
+  logger.debug(`Message sent: ${message.id}`, { conversationId, senderId })
+  return message
+}
+
+/**
+ * Mark the messages a user received in a conversation as read
+ * @param conversationId ID of the conversation
+ * @param userId ID of the reader
+ * @returns Number of messages marked
+ */
+export async function markConversationRead(conversationId: string, userId: string) {
+  const { count } = await prisma.message.updateMany({
+    where: { conversationId, senderId: { not: userId }, readAt: null },
+    data: { readAt: new Date() },
+  })
+
+  logger.debug(`Messages marked as read`, { conversationId, userId, count })
+  return count
+}
+
+/**
+ * Count unread received messages per conversation
+ * @param conversationIds IDs of the conversations
+ * @param userId ID of the reader
+ * @returns Unread counts keyed by conversation ID
+ */
+export async function countUnread(conversationIds: string[], userId: string) {
+  const groups = await prisma.message.groupBy({
+    by: ["conversationId"],
+    where: { conversationId: { in: conversationIds }, senderId: { not: userId }, readAt: null },
+    _count: { _all: true },
+  })
+
+  return new Map(groups.map((group) => [group.conversationId, group._count._all]))
+}
@@ -0,0 +1,222 @@
+import { EventEmitter } from "events"
+import { PrismaClient, type NFT } from "@prisma/client"
+import { broadcastMint, confirmMint, getMintTransactionState, prepareMint } from "./blockchainService"
+import { getTokenUri } from "./nftMetadataService"
+import { recordActivity } from "./activityService"
+import { notify } from "./notificationService"
+import logger from "../../config/logger"
+
+const prisma = new PrismaClient()
+
+// Status snapshot broadcast whenever a mint moves through its lifecycle
+export interface MintStatusEvent {
+  id: string
+  status: string
+  mintTxHash: string | null
+  tokenId: string | null
+  contractAddress: string | null
+  mintError: string | null
+}
+
+// Emits "status" with a MintStatusEvent; used by the status stream endpoint
+export const mintEvents = new EventEmitter()
+mintEvents.setMaxListeners(0)
+
+// NFT IDs currently being processed by this instance
+const inFlight = new Set<string>()
+
+// Mints are signed and broadcast one at a time so concurrent mints never sign with the same nonce
+let submitting: Promise<unknown> = Promise.resolve()
+
+function serializeSubmission<T>(task: () => Promise<T>): Promise<T> {
+  const run = submitting.then(task, task)
+  submitting = run.catch(() => undefined)
+  return run
+}
+
+/**
+ * Build the public status snapshot of an NFT
+ * @param nft NFT record
+ * @returns Mint status snapshot
+ */
+export function toMintStatus(nft: NFT): MintStatusEvent {
+  return {
+    id: nft.id,
+    status: nft.status,
+    mintTxHash: nft.mintTxHash,
+    tokenId: nft.tokenId,
+    contractAddress: nft.contractAddress,
+    mintError: nft.mintError,
+  }
+}
+
+function publish(nft: NFT) {
+  mintEvents.emit("status", toMintStatus(nft))
+}
+
+/**
+ * Drive a pending or failed NFT to a confirmed on-chain token.
+ * If a mint transaction was already submitted and succeeded, it is confirmed instead of minting a second token.
+ * @param nftId ID of the NFT record
+ */
+export async function processMint(nftId: string) {
+  if (inFlight.has(nftId)) {
+    logger.debug(`Mint already in progress: ${nftId}`)
+    return
+  }
+
+  inFlight.add(nftId)
+
+  try {
+    const nft = await prisma.nFT.findUnique({
+      where: { id: nftId },
+      include: { riff: true },
+    })
+
+    if (!nft) {
+      logger.warn(`NFT not found for minting: ${nftId}`)
+      return
+    }
+
+    if (nft.status === "confirmed") {
+      logger.debug(`NFT already confirmed: ${nftId}`)
+      return
+    }
+
+    const wallet = await prisma.wallet.findFirst({
+      where: { userId: nft.riff.userId },
+      orderBy: { createdAt: "asc" },
+    })
+
+    const metadata = {
+      title: nft.riff.title,
+      description: nft.riff.description || "",
+      coverImage: nft.riff.coverImageUrl || "",
+      royaltyPercentage: nft.royaltyPercentage,
+      recipient: wallet?.address,
+    }
+
+    let txHash = nft.mintTxHash
+
+    // Reuse a previous transaction unless the chain says it reverted
+    if (txHash) {
+      const state = await getMintTransactionState(txHash)
+      logger.info(`Existing mint transaction for NFT ${nftId} is ${state}`, { txHash })
+
+      if (state === "failed") {
+        txHash = null
+      } else if (state === "dropped") {
+        // Recorded but unknown to the chain, e.g. the process stopped before broadcasting: send the same transaction.
+        // Only when its nonce went to another transaction can it never land, and a new one is safe
+        const outcome = nft.mintSignedTx ? await broadcastMint(nft.mintSignedTx) : "stale"
+        if (outcome === "stale") {
+          txHash = null
+        }
+      }
+    }
+
+    if (!txHash) {
+      txHash = await serializeSubmission(async () => {
+        const prepared = await prepareMint(getTokenUri(nft.id), metadata)
+
+        // Recorded before broadcasting, so a crash in between resumes with this transaction instead of minting again
+        const pending = await prisma.nFT.update({
+          where: { id: nftId },
+          data: {
+            status: "pending",
+            mintTxHash: prepared.transactionHash,
+            mintSignedTx: prepared.signedTransaction,
+            mintError: null,
+            mintAttempts: { increment: 1 },
+          },
+        })
+        publish(pending)
+
+        if ((await broadcastMint(prepared.signedTransaction)) === "stale") {
+          throw new Error(`Mint transaction nonce already used: ${prepared.transactionHash}`)
+        }
+
+        return prepared.transactionHash
+      })
+    }
+
+    const { tokenId, contractAddress } = await confirmMint(txHash, metadata)
+
+    const confirmed = await prisma.$transaction(async (tx) => {
+      const confirmed = await tx.nFT.update({
+        where: { id: nftId },
+        data: {
+          status: "confirmed",
+          tokenId,
+          contractAddress,
+          mintError: null,
+        },
+      })
+
+      await recordActivity(tx, { type: "nftMinted", artistId: nft.riff.userId, riffId: nft.riffId })
+
+      return confirmed
+    })
+    publish(confirmed)
+
+    logger.info(`NFT mint confirmed: ${nftId}`, { tokenId, txHash })
+
+    notify({
+      userId: nft.riff.userId,
+      type: "nftMinted",
+      title: `"${nft.riff.title}" is minted`,
+      body: `Your riff "${nft.riff.title}" was minted as token #${tokenId}`,
+      data: { riffId: nft.riffId, nftId },
+    })
+  } catch (error) {
+    logger.error(`Error processing mint: ${error}`, { nftId })
+
+    const failed = await prisma.nFT
+      .update({
+        where: { id: nftId },
+        data: {
+          status: "failed",
+          mintError: error instanceof Error ? error.message : String(error),
+        },
+      })
+      .catch((updateError) => {
+        logger.error(`Error recording failed mint: ${updateError}`, { nftId })
+        return null
+      })
+
+    if (failed) publish(failed)
+  } finally {
+    inFlight.delete(nftId)
+  }
+}
+
+/**
+ * Start processing a mint in the background
+ * @param nftId ID of the NFT record
+ */
+export function startMint(nftId: string) {
+  processMint(nftId).catch((error) => {
+    logger.error(`Unhandled mint processing error: ${error}`, { nftId })
+  })
+}
+
+/**
+ * Resume mints left pending by a previous process, e.g. after a restart
+ * @returns Number of resumed mints
+ */
+export async function resumePendingMints(): Promise<number> {
+  const pending = await prisma.nFT.findMany({
+    where: { status: "pending" },
+    select: { id: true },
+  })
+
+  for (const nft of pending) {
+    startMint(nft.id)
+  }
+
+  if (pending.length > 0) {
+    logger.info(`Resumed ${pending.length} pending mints`)
+  }
+
+  return pending.length
+}
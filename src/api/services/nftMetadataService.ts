@@ -0,0 +1,129 @@
+import { PrismaClient, type NFT, type Riff } from "@prisma/client"
+
+const prisma = new PrismaClient()
+
+// Public base URL of this API, used in token URIs that marketplaces fetch
+const apiPublicUrl = (process.env.API_PUBLIC_URL || `http://localhost:${process.env.PORT || 3001}`).replace(/\/$/, "")
+// Optional web app URL for the marketplace "external link"
+const appPublicUrl = process.env.APP_PUBLIC_URL?.replace(/\/$/, "")
+
+export interface TokenAttribute {
+  trait_type: string
+  value: string | number
+  display_type?: "number"
+}
+
+// ERC-721 metadata JSON schema plus the fields OpenSea reads
+export interface TokenMetadata {
+  name: string
+  description: string
+  image?: string
+  animation_url?: string
+  external_url?: string
+  attributes: TokenAttribute[]
+  // OpenSea's off-chain royalty fields, mirroring the on-chain ERC-2981 royaltyInfo
+  seller_fee_basis_points: number
+  fee_recipient?: string
+  royalty: {
+    standard: "ERC-2981"
+    basis_points: number
+    receiver?: string
+  }
+}
+
+const UNLOCKABLES: [keyof NFT, string][] = [
+  ["unlockSourceFiles", "Source Files"],
+  ["unlockRemixRights", "Remix Rights"],
+  ["unlockPrivateMessages", "Private Messages"],
+  ["unlockBackstageContent", "Backstage Content"],
+]
+
+/**
+ * Token URI passed to the contract at mint time. The on-chain token ID is only known once
+ * the mint is mined, so the URI identifies the NFT by its database ID.
+ * @param nftId ID of the NFT
+ * @returns Metadata URL
+ */
+export function getTokenUri(nftId: string): string {
+  return `${apiPublicUrl}/api/nfts/metadata/${nftId}`
+}
+
+/**
+ * Build ERC-721 metadata for an NFT
+ * @param nft NFT with its riff
+ * @param royaltyReceiver Address receiving royalties, if the artist has a wallet
+ * @returns Metadata JSON
+ */
+export function buildTokenMetadata(nft: NFT & { riff: Riff }, royaltyReceiver?: string): TokenMetadata {
+  const { riff } = nft
+  const attributes: TokenAttribute[] = []
+
+  const traits: [string, string | null][] = [
+    ["Genre", riff.genre],
+    ["Mood", riff.mood],
+    ["Instrument", riff.instrument],
+    ["Key", riff.keySignature],
+    ["Time Signature", riff.timeSignature],
+  ]
+  for (const [traitType, value] of traits) {
+    if (value) attributes.push({ trait_type: traitType, value })
+  }
+
+  if (riff.duration) {
+    attributes.push({ trait_type: "Duration (seconds)", value: Math.round(riff.duration), display_type: "number" })
+  }
+
+  if (riff.bpm) {
+    attributes.push({ trait_type: "BPM", value: Math.round(riff.bpm), display_type: "number" })
+  }
+
+  for (const [field, label] of UNLOCKABLES) {
+    if (nft[field]) attributes.push({ trait_type: "Unlockable", value: label })
+  }
+
+  const basisPoints = Math.round(nft.royaltyPercentage * 100)
+
+  return {
+    name: riff.title,
+    description: riff.description || "",
+    ...(riff.coverImageUrl ? { image: riff.coverImageUrl } : {}),
+    // Only the public preview; the full-quality audio is gated to the holder
+    ...(riff.previewUrl ? { animation_url: riff.previewUrl } : {}),
+    ...(appPublicUrl ? { external_url: `${appPublicUrl}/riffs/${riff.id}` } : {}),
+    attributes,
+    seller_fee_basis_points: basisPoints,
+    ...(royaltyReceiver ? { fee_recipient: royaltyReceiver } : {}),
+    royalty: {
+      standard: "ERC-2981",
+      basis_points: basisPoints,
+      ...(royaltyReceiver ? { receiver: royaltyReceiver } : {}),
+    },
+  }
+}
+
+/**
+ * Look up an NFT by on-chain token ID or database ID and build its metadata
+ * @param tokenId On-chain token ID, or the NFT ID used in token URIs
+ * @returns Metadata JSON, or null if no minted or minting NFT matches
+ */
+export async function getTokenMetadata(tokenId: string): Promise<TokenMetadata | null> {
+  const nft = await prisma.nFT.findFirst({
+    where: {
+      OR: [{ tokenId }, { id: tokenId }],
+      status: { not: "failed" },
+    },
+    include: { riff: true },
+  })
+
+  if (!nft) {
+    return null
+  }
+
+  // Royalties go to the artist's first wallet, as set on-chain at mint time
+  const wallet = await prisma.wallet.findFirst({
+    where: { userId: nft.riff.userId },
+    orderBy: { createdAt: "asc" },
+  })
+
+  return buildTokenMetadata(nft, wallet?.address)
+}
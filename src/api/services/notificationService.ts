@@ -0,0 +1,169 @@
+import path from "path"
+import { PrismaClient, type Prisma } from "@prisma/client"
+import logger from "../../config/logger"
+import { ConsoleNotificationChannel } from "./notifications/consoleNotificationChannel"
+import { EmailNotificationChannel } from "./notifications/emailNotificationChannel"
+import { FileNotificationChannel } from "./notifications/fileNotificationChannel"
+import type { NotificationChannel } from "./notifications/notificationChannel"
+
+const prisma = new PrismaClient()
+
+export type NotificationDriver = "email" | "console" | "file"
+
+// Email when a sender address is configured, the application log otherwise
+const notificationDriver = (process.env.NOTIFICATION_DRIVER ||
+  (process.env.NOTIFICATION_EMAIL_FROM ? "email" : "console")) as NotificationDriver
+const notificationFile = process.env.NOTIFICATION_FILE || path.join(__dirname, "../../../logs/notifications.log")
+
+export const NOTIFICATION_TYPES = ["tipReceived", "stakeReceived", "nftMinted", "nftSold", "stakeUnlocked"] as const
+export type NotificationType = (typeof NOTIFICATION_TYPES)[number]
+
+export function isNotificationType(value: unknown): value is NotificationType {
+  return NOTIFICATION_TYPES.includes(value as NotificationType)
+}
+
+export interface NotificationSettings {
+  // Keep the notification in the inbox
+  inApp: boolean
+  // Send it through the delivery channel
+  email: boolean
+}
+
+const defaultSettings: NotificationSettings = { inApp: true, email: true }
+
+export interface NotificationInput {
+  userId: string
+  type: NotificationType
+  title: string
+  body: string
+  data?: Record<string, string | number>
+}
+
+let channel: NotificationChannel | null = null
+
+function createChannel(driver: NotificationDriver): NotificationChannel {
+  switch (driver) {
+    case "email":
+      return new EmailNotificationChannel({
+        from: process.env.NOTIFICATION_EMAIL_FROM || "notifications@riffblock.app",
+        region: process.env.AWS_REGION || "us-east-1",
+        accessKeyId: process.env.AWS_ACCESS_KEY_ID,
+        secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY,
+      })
+    case "console":
+      return new ConsoleNotificationChannel()
+    case "file":
+      return new FileNotificationChannel(notificationFile)
+    default:
+      throw new Error(`Unknown NOTIFICATION_DRIVER: ${driver}`)
+  }
+}
+
+/**
+ * Get the configured delivery channel, creating it on first use
+ * @returns Notification channel
+ */
+export function getNotificationChannel(): NotificationChannel {
+  if (!channel) {
+    channel = createChannel(notificationDriver)
+    logger.info(`Notification channel initialised: ${channel.name}`)
+  }
+  return channel
+}
+
+/**
+ * Replace the delivery channel, e.g. with a recording one in tests
+ * @param notificationChannel Channel to use
+ */
+export function setNotificationChannel(notificationChannel: NotificationChannel) {
+  channel = notificationChannel
+}
+
+/**
+ * Get a user's settings for every notification type, with defaults for types they never changed
+ * @param userId ID of the user
+ * @returns Settings keyed by type
+ */
+export async function getNotificationPreferences(
+  userId: string,
+): Promise<Record<NotificationType, NotificationSettings>> {
+  const rows = await prisma.notificationPreference.findMany({
+    where: { userId },
+  })
+
+  return Object.fromEntries(
+    NOTIFICATION_TYPES.map((type) => {
+      const row = rows.find((preference) => preference.type === type)
+      return [type, row ? { inApp: row.inApp, email: row.email } : { ...defaultSettings }]
+    }),
+  ) as Record<NotificationType, NotificationSettings>
+}
+
+/**
+ * Change a user's settings for some notification types; omitted types and fields keep their value
+ * @param userId ID of the user
+ * @param updates Settings to change, keyed by type
+ * @returns Settings for every type after the update
+ */
+export async function updateNotificationPreferences(
+  userId: string,
+  updates: Partial<Record<NotificationType, Partial<NotificationSettings>>>,
+) {
+  await prisma.$transaction(
+    Object.entries(updates).map(([type, settings]) =>
+      prisma.notificationPreference.upsert({
+        where: { userId_type: { userId, type } },
+        create: { userId, type, ...defaultSettings, ...settings },
+        update: settings ?? {},
+      }),
+    ),
+  )
+
+  return getNotificationPreferences(userId)
+}
+
+async function sendNotification(input: NotificationInput) {
+  const [user, preference] = await Promise.all([
+    prisma.user.findUnique({
+      where: { id: input.userId },
+      select: { id: true, name: true, email: true },
+    }),
+    prisma.notificationPreference.findUnique({
+      where: { userId_type: { userId: input.userId, type: input.type } },
+    }),
+  ])
+
+  if (!user) {
+    logger.warn(`User not found for notification: ${input.userId}`, { type: input.type })
+    return
+  }
+
+  const settings = preference ?? defaultSettings
+  const data = input.data as Prisma.InputJsonObject | undefined
+
+  if (settings.inApp) {
+    await prisma.notification.create({
+      data: { userId: user.id, type: input.type, title: input.title, body: input.body, data },
+    })
+  }
+
+  if (settings.email) {
+    const message = { type: input.type, title: input.title, body: input.body, data: input.data }
+    const delivered = await getNotificationChannel().send(user, message)
+    logger.debug(`Notification ${delivered ? "delivered" : "not deliverable"}: ${input.type}`, {
+      userId: user.id,
+      channel: getNotificationChannel().name,
+    })
+  }
+}
+
+/**
+ * Notify a user in the background, honouring their preferences for the type.
+ * Failures are logged and never reach the caller, so the triggering request is unaffected.
+ * @param input Recipient, type, text and related record IDs
+ */
+export function notify(input: NotificationInput) {
+  sendNotification(input).catch((error) => {
+    logger.error(`Error sending notification: ${error}`, { userId: input.userId, type: input.type })
+  })
+}
@@ -0,0 +1,12 @@
+import logger from "../../../config/logger"
+import type { NotificationChannel, NotificationMessage, NotificationRecipient } from "./notificationChannel"
+
+// Records notifications in the application log, for development; contact details and text are left out
+export class ConsoleNotificationChannel implements NotificationChannel {
+  readonly name = "console"
+
+  async send(recipient: NotificationRecipient, message: NotificationMessage): Promise<boolean> {
+    logger.info(`Notification for user ${recipient.id}`, { type: message.type })
+    return true
+  }
+}
@@ -0,0 +1,46 @@
+import AWS from "aws-sdk"
+import type { NotificationChannel, NotificationMessage, NotificationRecipient } from "./notificationChannel"
+
+export interface EmailNotificationConfig {
+  from: string
+  region: string
+  accessKeyId?: string
+  secretAccessKey?: string
+}
+
+// Sends notifications as plain-text email through Amazon SES; the client is configured per instance
+export class EmailNotificationChannel implements NotificationChannel {
+  readonly name = "email"
+  private ses: AWS.SES
+  private from: string
+
+  constructor(config: EmailNotificationConfig) {
+    this.from = config.from
+    this.ses = new AWS.SES({
+      region: config.region,
+      ...(config.accessKeyId && config.secretAccessKey
+        ? { credentials: { accessKeyId: config.accessKeyId, secretAccessKey: config.secretAccessKey } }
+        : {}),
+    })
+  }
+
+  async send(recipient: NotificationRecipient, message: NotificationMessage): Promise<boolean> {
+    // Wallet-only accounts have no address to send to
+    if (!recipient.email) {
+      return false
+    }
+
+    await this.ses
+      .sendEmail({
+        Source: this.from,
+        Destination: { ToAddresses: [recipient.email] },
+        Message: {
+          Subject: { Data: message.title, Charset: "UTF-8" },
+          Body: { Text: { Data: message.body, Charset: "UTF-8" } },
+        },
+      })
+      .promise()
+
+    return true
+  }
+}
@@ -0,0 +1,22 @@
+import fs from "fs"
+import path from "path"
+import type { NotificationChannel, NotificationMessage, NotificationRecipient } from "./notificationChannel"
+
+// Appends notifications to a file as JSON lines, so local runs can inspect what would have been emailed
+export class FileNotificationChannel implements NotificationChannel {
+  readonly name = "file"
+  private filePath: string
+
+  constructor(filePath: string) {
+    this.filePath = path.resolve(filePath)
+  }
+
+  async send(recipient: NotificationRecipient, message: NotificationMessage): Promise<boolean> {
+    await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true })
+    await fs.promises.appendFile(
+      this.filePath,
+      JSON.stringify({ sentAt: new Date().toISOString(), to: recipient, ...message }) + "\n",
+    )
+    return true
+  }
+}
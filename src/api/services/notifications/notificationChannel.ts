@@ -0,0 +1,28 @@
+export interface NotificationRecipient {
+  id: string
+  name: string | null
+  email: string | null
+}
+
+export interface NotificationMessage {
+  type: string
+  title: string
+  body: string
+  // IDs of the records the notification is about
+  data?: Record<string, unknown>
+}
+
+/**
+ * Delivers notifications outside the app, e.g. by email. The in-app inbox is written separately.
+ */
+export interface NotificationChannel {
+  readonly name: string
+
+  /**
+   * Deliver a notification to a user
+   * @param recipient User to notify
+   * @param message Rendered notification
+   * @returns Whether it was delivered; false if the recipient cannot be reached this way, e.g. has no email address
+   */
+  send(recipient: NotificationRecipient, message: NotificationMessage): Promise<boolean>
+}
@@ -0,0 +1,70 @@
+import { PrismaClient } from "@prisma/client"
+
+const prisma = new PrismaClient()
+
+// Aggregates shown on riff listings in place of the raw tips/staking arrays
+export interface RiffStats {
+  tipCount: number
+  tipTotal: number
+  stakerCount: number
+  totalStaked: number
+}
+
+const emptyStats: RiffStats = {
+  tipCount: 0,
+  tipTotal: 0,
+  stakerCount: 0,
+  totalStaked: 0,
+}
+
+/**
+ * Compute tip and staking aggregates for a set of riffs in a fixed number of queries
+ * @param riffIds IDs of the riffs
+ * @returns Stats keyed by riff ID (riffs without activity get zeroes)
+ */
+export async function getRiffStats(riffIds: string[]): Promise<Map<string, RiffStats>> {
+  const stats = new Map<string, RiffStats>(riffIds.map((id) => [id, { ...emptyStats }]))
+
+  if (riffIds.length === 0) {
+    return stats
+  }
+
+  const [tipGroups, stakeGroups] = await Promise.all([
+    prisma.tip.groupBy({
+      by: ["riffId"],
+      where: { riffId: { in: riffIds } },
+      _sum: { amount: true },
+      _count: { _all: true },
+    }),
+    // Grouped per staker so each user is counted once per riff
+    prisma.staking.groupBy({
+      by: ["riffId", "userId"],
+      where: { riffId: { in: riffIds }, status: { not: "withdrawn" } },
+      _sum: { amount: true },
+    }),
+  ])
+
+  for (const group of tipGroups) {
+    const entry = stats.get(group.riffId)!
+    entry.tipCount = group._count._all
+    entry.tipTotal = group._sum.amount ?? 0
+  }
+
+  for (const group of stakeGroups) {
+    const entry = stats.get(group.riffId)!
+    entry.stakerCount += 1
+    entry.totalStaked += group._sum.amount ?? 0
+  }
+
+  return stats
+}
+
+/**
+ * Attach stats to each riff of a list
+ * @param riffs Riffs with an `id`
+ * @returns Riffs with a `stats` field
+ */
+export async function withRiffStats<T extends { id: string }>(riffs: T[]): Promise<(T & { stats: RiffStats })[]> {
+  const stats = await getRiffStats(riffs.map((riff) => riff.id))
+  return riffs.map((riff) => ({ ...riff, stats: stats.get(riff.id) ?? { ...emptyStats } }))
+}
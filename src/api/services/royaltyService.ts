@@ -0,0 +1,112 @@
+import type { Prisma } from "@prisma/client"
+import { distributeUpstream } from "./lineageService"
+import { roundAmount } from "../utils/amounts"
+import logger from "../../config/logger"
+
+// A sale or other event that owes royalties on an NFT
+export interface RoyaltyEvent {
+  nftId: string
+  source: string
+  sourceId: string
+  grossAmount: number
+  currency: string
+}
+
+/**
+ * Split the royalty owed on an event between the riff creator and its active stakers.
+ * `royaltyPercentage` of the gross amount is owed; `customRoyaltyShare` percent of that
+ * goes to stakers pro rata to their staked amount, the rest to the creator. If the riff is
+ * a remix, the creator's part is further shared with the artists of the riffs it derives from.
+ * Must run inside the transaction that records the event so payouts cannot be lost or duplicated.
+ * @param tx Prisma transaction client
+ * @param event The royalty event
+ * @returns The distribution with its payout line items and upstream lineage payouts
+ */
+export async function distributeRoyalties(tx: Prisma.TransactionClient, event: RoyaltyEvent) {
+  const nft = await tx.nFT.findUnique({
+    where: { id: event.nftId },
+    include: { riff: true },
+  })
+
+  if (!nft) {
+    throw new Error(`NFT not found for royalty distribution: ${event.nftId}`)
+  }
+
+  const royaltyAmount = roundAmount((event.grossAmount * nft.royaltyPercentage) / 100)
+
+  const stakes = nft.enableStaking
+    ? await tx.staking.findMany({
+        where: {
+          riffId: nft.riffId,
+          status: { not: "withdrawn" },
+        },
+      })
+    : []
+
+  const totalStaked = stakes.reduce((sum, stake) => sum + stake.amount, 0)
+  const stakerPool = totalStaked > 0 ? roundAmount((royaltyAmount * nft.customRoyaltyShare) / 100) : 0
+
+  const stakerPayouts = stakes
+    .map((stake) => ({
+      stake,
+      amount: roundAmount((stakerPool * stake.amount) / totalStaked),
+    }))
+    .filter((payout) => payout.amount > 0)
+
+  const paidToStakers = stakerPayouts.reduce((sum, payout) => sum + payout.amount, 0)
+  // The creator absorbs rounding dust
+  const creatorShare = roundAmount(royaltyAmount - paidToStakers)
+
+  const upstream = await distributeUpstream(tx, {
+    source: event.source,
+    sourceId: event.sourceId,
+    riffId: nft.riffId,
+    amount: creatorShare,
+    currency: event.currency,
+  })
+  const creatorAmount = upstream.retained
+
+  const distribution = await tx.royaltyDistribution.create({
+    data: {
+      nftId: nft.id,
+      source: event.source,
+      sourceId: event.sourceId,
+      grossAmount: event.grossAmount,
+      royaltyAmount,
+      stakerPool,
+      currency: event.currency,
+      payouts: {
+        create: [
+          ...(creatorAmount > 0 ? [{ recipientId: nft.riff.userId, role: "creator", amount: creatorAmount }] : []),
+          ...stakerPayouts.map((payout) => ({
+            recipientId: payout.stake.userId,
+            stakingId: payout.stake.id,
+            role: "staker",
+            amount: payout.amount,
+          })),
+        ],
+      },
+    },
+    include: { payouts: true },
+  })
+
+  for (const payout of stakerPayouts) {
+    await tx.staking.update({
+      where: { id: payout.stake.id },
+      data: { royaltiesEarned: { increment: payout.amount } },
+    })
+  }
+
+  logger.info(`Royalties distributed for NFT ${nft.id}`, {
+    distributionId: distribution.id,
+    source: event.source,
+    sourceId: event.sourceId,
+    royaltyAmount,
+    creatorAmount,
+    stakerPool,
+    stakers: stakerPayouts.length,
+    upstreamPayouts: upstream.payouts.length,
+  })
+
+  return { ...distribution, upstreamPayouts: upstream.payouts }
+}
@@ -0,0 +1,160 @@
+import { Prisma, PrismaClient } from "@prisma/client"
+import logger from "../../config/logger"
+
+const prisma = new PrismaClient()
+
+// Weighted document of a riff: title (A), genre/mood/instrument (B), description (C).
+// Must stay identical to the index expression in prisma/sql/riff_search_index.sql.
+const riffSearchVector = Prisma.sql`(
+  setweight(to_tsvector('english', coalesce(r."title", '')), 'A') ||
+  setweight(
+    to_tsvector('english', coalesce(r."genre", '') || ' ' || coalesce(r."mood", '') || ' ' || coalesce(r."instrument", '')),
+    'B'
+  ) ||
+  setweight(to_tsvector('english', coalesce(r."description", '')), 'C')
+)`
+
+const artistSearchVector = Prisma.sql`to_tsvector('english', coalesce(u."name", ''))`
+
+export interface RiffSearchFilters {
+  genre?: string
+  mood?: string
+  instrument?: string
+  keySignature?: string
+}
+
+export interface RiffSearchParams {
+  query: string
+  filters: RiffSearchFilters
+  limit: number
+  offset: number
+}
+
+export interface FacetCount {
+  value: string
+  count: number
+}
+
+export interface RiffSearchFacets {
+  genre: FacetCount[]
+  mood: FacetCount[]
+  instrument: FacetCount[]
+  keySignature: FacetCount[]
+}
+
+/**
+ * Build the WHERE clause shared by the result and facet queries
+ * @param params Search parameters
+ * @returns SQL condition
+ */
+function buildConditions(params: RiffSearchParams) {
+  const conditions: Prisma.Sql[] = []
+
+  if (params.query) {
+    // A match on the artist's name is enough; it is ranked at half weight below.
+    // An OR across the join cannot use both GIN indexes, so each table is matched in its own subquery
+    // (reusing the r and u aliases the vectors are written against) and the results are combined by ID.
+    const query = Prisma.sql`websearch_to_tsquery('english', ${params.query})`
+    conditions.push(Prisma.sql`(
+      r."id" IN (SELECT r."id" FROM "Riff" r WHERE ${riffSearchVector} @@ ${query})
+      OR r."userId" IN (SELECT u."id" FROM "User" u WHERE ${artistSearchVector} @@ ${query})
+    )`)
+  }
+
+  if (params.filters.genre) conditions.push(Prisma.sql`r."genre" = ${params.filters.genre}`)
+  if (params.filters.mood) conditions.push(Prisma.sql`r."mood" = ${params.filters.mood}`)
+  if (params.filters.instrument) conditions.push(Prisma.sql`r."instrument" = ${params.filters.instrument}`)
+  if (params.filters.keySignature) conditions.push(Prisma.sql`r."keySignature" = ${params.filters.keySignature}`)
+
+  return conditions.length > 0 ? Prisma.sql`WHERE ${Prisma.join(conditions, " AND ")}` : Prisma.empty
+}
+
+/**
+ * Ranked full-text search over riffs with facet counts for the whole match set
+ * @param params Query text, exact-match filters and page window
+ * @returns Matching riff IDs in rank order, total match count and facets
+ */
+export async function searchRiffs(params: RiffSearchParams) {
+  const where = buildConditions(params)
+  const from = Prisma.sql`
+    FROM "Riff" r
+    JOIN "User" u ON u."id" = r."userId"
+    CROSS JOIN (SELECT websearch_to_tsquery('english', ${params.query}) AS query) q
+  `
+
+  const rank = params.query
+    ? Prisma.sql`ts_rank(${riffSearchVector}, q.query) + 0.5 * ts_rank(${artistSearchVector}, q.query)`
+    : Prisma.sql`0`
+
+  const [rows, facetRows] = await Promise.all([
+    prisma.$queryRaw<{ id: string; rank: number }[]>`
+      SELECT r."id", ${rank} AS rank
+      ${from}
+      ${where}
+      ORDER BY rank DESC, r."createdAt" DESC, r."id" ASC
+      LIMIT ${params.limit} OFFSET ${params.offset}
+    `,
+    // One pass over the match set; GROUPING() tells which facet a row belongs to
+    prisma.$queryRaw<
+      {
+        genre: string | null
+        mood: string | null
+        instrument: string | null
+        keySignature: string | null
+        facet: number
+        count: bigint
+      }[]
+    >`
+      SELECT r."genre", r."mood", r."instrument", r."keySignature",
+        GROUPING(r."genre", r."mood", r."instrument", r."keySignature") AS facet,
+        COUNT(*) AS count
+      ${from}
+      ${where}
+      GROUP BY GROUPING SETS ((r."genre"), (r."mood"), (r."instrument"), (r."keySignature"), ())
+    `,
+  ])
+
+  // GROUPING() bitmask: the bit of each grouped column is 0, the others 1
+  const facetBits: Record<number, keyof RiffSearchFacets> = {
+    0b0111: "genre",
+    0b1011: "mood",
+    0b1101: "instrument",
+    0b1110: "keySignature",
+  }
+
+  const facets: RiffSearchFacets = { genre: [], mood: [], instrument: [], keySignature: [] }
+  let total = 0
+
+  for (const row of facetRows) {
+    const count = Number(row.count)
+
+    if (row.facet === 0b1111) {
+      total = count
+      continue
+    }
+
+    const facet = facetBits[row.facet]
+    const value = facet ? row[facet] : null
+    if (facet && value) {
+      facets[facet].push({ value, count })
+    }
+  }
+
+  for (const facet of Object.values(facets)) {
+    facet.sort((a: FacetCount, b: FacetCount) => b.count - a.count || a.value.localeCompare(b.value))
+  }
+
+  logger.debug("Riff search executed", {
+    query: params.query,
+    filters: params.filters,
+    total,
+    returned: rows.length,
+  })
+
+  return {
+    ids: rows.map((row) => row.id),
+    ranks: new Map(rows.map((row) => [row.id, Number(row.rank)])),
+    total,
+    facets,
+  }
+}
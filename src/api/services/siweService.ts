@@ -0,0 +1,223 @@
+import crypto from "crypto"
+import { ethers } from "ethers"
+import { PrismaClient } from "@prisma/client"
+import logger from "../../config/logger"
+
+const prisma = new PrismaClient()
+
+const nonceTtlMinutes = Number.parseInt(process.env.SIWE_NONCE_TTL_MINUTES || "10", 10)
+// Comma-separated list of domains allowed in the message header. Without SIWE_DOMAIN only the host of the
+// web app (or of this API) is accepted, never any domain, so signatures made for other sites cannot be relayed
+const defaultDomain = new URL(
+  process.env.APP_PUBLIC_URL || process.env.API_PUBLIC_URL || `http://localhost:${process.env.PORT || 3001}`,
+).host
+const allowedDomains = (process.env.SIWE_DOMAIN || defaultDomain)
+  .split(",")
+  .map((domain) => domain.trim())
+  .filter(Boolean)
+const expectedChainId = process.env.CHAIN_ID ? Number.parseInt(process.env.CHAIN_ID, 10) : null
+
+// Fields of an EIP-4361 message
+export interface SiweMessage {
+  domain: string
+  address: string
+  statement?: string
+  uri: string
+  version: string
+  chainId: number
+  nonce: string
+  issuedAt: string
+  expirationTime?: string
+  notBefore?: string
+  requestId?: string
+  resources: string[]
+}
+
+export type SiweVerificationResult =
+  | { success: true; address: string; message: SiweMessage }
+  | { success: false; reason: string }
+
+const HEADER_SUFFIX = " wants you to sign in with your Ethereum account:"
+
+/**
+ * Normalise an address to its checksummed form
+ * @param address Ethereum address in any casing
+ * @returns Checksummed address
+ */
+export function normalizeAddress(address: string): string {
+  return ethers.getAddress(address)
+}
+
+/**
+ * Check whether a string is a valid Ethereum address
+ * @param address Candidate address
+ * @returns Whether the address is valid
+ */
+export function isValidAddress(address: string): boolean {
+  return ethers.isAddress(address)
+}
+
+/**
+ * Create a single-use sign-in nonce
+ * @param address Optional address the nonce is reserved for
+ * @returns Nonce and its expiry
+ */
+export async function createNonce(address?: string) {
+  const nonce = crypto.randomBytes(16).toString("hex")
+  const expiresAt = new Date(Date.now() + nonceTtlMinutes * 60 * 1000)
+
+  await prisma.walletNonce.create({
+    data: {
+      nonce,
+      address: address ? normalizeAddress(address) : null,
+      expiresAt,
+    },
+  })
+
+  logger.debug("Wallet nonce created", { address, expiresAt })
+
+  return { nonce, expiresAt }
+}
+
+/**
+ * Parse an EIP-4361 message
+ * @param message Raw message text that was signed
+ * @returns Parsed fields, or null if the message is malformed
+ */
+export function parseSiweMessage(message: string): SiweMessage | null {
+  const lines = message.split("\n")
+
+  if (lines.length < 2 || !lines[0].endsWith(HEADER_SUFFIX)) {
+    return null
+  }
+
+  const domain = lines[0].slice(0, -HEADER_SUFFIX.length)
+  const address = lines[1].trim()
+  const uriIndex = lines.findIndex((line) => line.startsWith("URI: "))
+
+  if (!domain || uriIndex === -1) {
+    return null
+  }
+
+  // Everything between the address and the first field is the (optional) statement
+  const statement = lines.slice(2, uriIndex).join("\n").trim() || undefined
+
+  const fields: Record<string, string> = {}
+  const resources: string[] = []
+  let inResources = false
+
+  for (const line of lines.slice(uriIndex)) {
+    if (inResources && line.startsWith("- ")) {
+      resources.push(line.slice(2))
+      continue
+    }
+
+    if (line === "Resources:") {
+      inResources = true
+      continue
+    }
+
+    const separator = line.indexOf(": ")
+    if (separator === -1) continue
+    fields[line.slice(0, separator)] = line.slice(separator + 2)
+  }
+
+  if (!fields["URI"] || !fields["Version"] || !fields["Chain ID"] || !fields["Nonce"] || !fields["Issued At"]) {
+    return null
+  }
+
+  return {
+    domain,
+    address,
+    statement,
+    uri: fields["URI"],
+    version: fields["Version"],
+    chainId: Number.parseInt(fields["Chain ID"], 10),
+    nonce: fields["Nonce"],
+    issuedAt: fields["Issued At"],
+    expirationTime: fields["Expiration Time"],
+    notBefore: fields["Not Before"],
+    requestId: fields["Request ID"],
+    resources,
+  }
+}
+
+/**
+ * Verify a signed EIP-4361 message and consume its nonce.
+ * A nonce can only ever be used once, so a captured message/signature pair cannot be replayed.
+ * @param message Raw message text that was signed
+ * @param signature Signature produced by the wallet
+ * @returns Verification result with the proven address
+ */
+export async function verifySiweMessage(message: string, signature: string): Promise<SiweVerificationResult> {
+  const parsed = parseSiweMessage(message)
+
+  if (!parsed) {
+    return { success: false, reason: "Malformed sign-in message" }
+  }
+
+  if (parsed.version !== "1") {
+    return { success: false, reason: "Unsupported sign-in message version" }
+  }
+
+  if (!allowedDomains.includes(parsed.domain)) {
+    return { success: false, reason: "Sign-in message domain mismatch" }
+  }
+
+  if (expectedChainId !== null && parsed.chainId !== expectedChainId) {
+    return { success: false, reason: "Sign-in message chain mismatch" }
+  }
+
+  const now = new Date()
+
+  if (parsed.expirationTime && new Date(parsed.expirationTime) <= now) {
+    return { success: false, reason: "Sign-in message has expired" }
+  }
+
+  if (parsed.notBefore && new Date(parsed.notBefore) > now) {
+    return { success: false, reason: "Sign-in message is not yet valid" }
+  }
+
+  let claimedAddress: string
+  let recoveredAddress: string
+
+  try {
+    claimedAddress = normalizeAddress(parsed.address)
+    recoveredAddress = ethers.verifyMessage(message, signature)
+  } catch (error) {
+    logger.warn(`Sign-in signature could not be verified: ${error}`)
+    return { success: false, reason: "Invalid signature" }
+  }
+
+  if (recoveredAddress !== claimedAddress) {
+    logger.warn("Sign-in signature does not match address", { claimedAddress, recoveredAddress })
+    return { success: false, reason: "Invalid signature" }
+  }
+
+  const nonceRecord = await prisma.walletNonce.findUnique({
+    where: { nonce: parsed.nonce },
+  })
+
+  if (!nonceRecord || nonceRecord.expiresAt <= now) {
+    return { success: false, reason: "Unknown or expired nonce" }
+  }
+
+  if (nonceRecord.address && nonceRecord.address !== claimedAddress) {
+    return { success: false, reason: "Nonce was issued for a different address" }
+  }
+
+  // Consume the nonce; the usedAt guard makes concurrent replays lose the race
+  const consumed = await prisma.walletNonce.updateMany({
+    where: { id: nonceRecord.id, usedAt: null },
+    data: { usedAt: now },
+  })
+
+  if (consumed.count === 0) {
+    logger.warn("Sign-in nonce replay rejected", { address: claimedAddress })
+    return { success: false, reason: "Nonce has already been used" }
+  }
+
+  logger.debug("Sign-in message verified", { address: claimedAddress })
+
+  return { success: true, address: claimedAddress, message: parsed }
+}
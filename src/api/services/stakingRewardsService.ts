@@ -0,0 +1,182 @@
+import { PrismaClient, type Prisma, type Staking } from "@prisma/client"
+import { postTransfer, SYSTEM_ACCOUNTS, userAccountCode } from "./ledgerService"
+import { notify } from "./notificationService"
+import { roundAmount } from "../utils/amounts"
+import logger from "../../config/logger"
+
+const prisma = new PrismaClient()
+
+// Annual reward rate in percent of the staked amount, paid for the locked period
+const rewardApr = Number.parseFloat(process.env.STAKING_REWARD_APR || "12")
+const accrualIntervalMinutes = Number.parseFloat(process.env.STAKING_ACCRUAL_INTERVAL_MINUTES || "60")
+
+const YEAR_MS = 365 * 24 * 60 * 60 * 1000
+
+/**
+ * Base annual reward rate in percent, before tier multipliers
+ * @returns Annual percentage rate
+ */
+export function getBaseRewardApr(): number {
+  return rewardApr
+}
+
+/**
+ * Annual reward rate of a stake in percent, including its tier multiplier
+ * @param stake Staking record
+ * @returns Annual percentage rate
+ */
+export function getRewardApr(stake: Pick<Staking, "rewardMultiplier">): number {
+  return rewardApr * stake.rewardMultiplier
+}
+
+/**
+ * Rewards a stake has earned between two instants. Rewards only accrue while the stake is locked.
+ * @param stake Staking record
+ * @param from Start of the period
+ * @param to End of the period
+ * @returns Reward amount
+ */
+export function computeReward(stake: Staking, from: Date, to: Date): number {
+  const end = Math.min(to.getTime(), stake.unlockAt.getTime())
+  const elapsed = end - from.getTime()
+
+  if (elapsed <= 0) {
+    return 0
+  }
+
+  return roundAmount((stake.amount * getRewardApr(stake) * elapsed) / (100 * YEAR_MS))
+}
+
+/**
+ * Accrue rewards on locked stakes up to `now` and unlock stakes whose lock period has ended
+ * @param now Accrual instant
+ * @param where Optional extra filter, e.g. a single stake
+ * @returns Number of accrued stakes and number of newly unlocked stakes
+ */
+export async function accrueRewards(now = new Date(), where: Prisma.StakingWhereInput = {}) {
+  const stakes = await prisma.staking.findMany({
+    where: { ...where, status: "locked" },
+    include: { riff: { select: { title: true } } },
+  })
+
+  let accrued = 0
+  let unlocked = 0
+
+  for (const stake of stakes) {
+    const from = stake.lastAccruedAt ?? stake.stakedAt
+    const reward = computeReward(stake, from, now)
+    const isUnlocked = now >= stake.unlockAt
+
+    // Guarded on lastAccruedAt so overlapping accrual runs never credit the same period twice
+    const updated = await prisma.staking.updateMany({
+      where: { id: stake.id, status: "locked", lastAccruedAt: stake.lastAccruedAt },
+      data: {
+        pendingRewards: { increment: reward },
+        lastAccruedAt: isUnlocked ? stake.unlockAt : now,
+        status: isUnlocked ? "unlocked" : "locked",
+      },
+    })
+
+    if (updated.count === 0) continue
+
+    accrued++
+    if (isUnlocked) {
+      unlocked++
+      logger.info(`Stake unlocked: ${stake.id}`, { userId: stake.userId, riffId: stake.riffId })
+
+      notify({
+        userId: stake.userId,
+        type: "stakeUnlocked",
+        title: `Your stake on "${stake.riff.title}" is unlocked`,
+        body: `Your stake of ${stake.amount} RIFF on "${stake.riff.title}" can now be withdrawn`,
+        data: { riffId: stake.riffId, stakingId: stake.id },
+      })
+    }
+  }
+
+  logger.debug(`Staking rewards accrued`, { stakes: stakes.length, accrued, unlocked })
+
+  return { accrued, unlocked }
+}
+
+/**
+ * Pay out pending rewards of a user's stakes to their token balance
+ * @param userId ID of the user
+ * @param stakingId Optional single stake to claim
+ * @returns Claim records created
+ */
+export async function claimRewards(userId: string, stakingId?: string) {
+  // Bring pending rewards up to date before paying them out
+  await accrueRewards(new Date(), { userId, ...(stakingId ? { id: stakingId } : {}) })
+
+  return prisma.$transaction(async (tx) => {
+    const stakes = await tx.staking.findMany({
+      where: {
+        userId,
+        pendingRewards: { gt: 0 },
+        ...(stakingId ? { id: stakingId } : {}),
+      },
+    })
+
+    const claims = []
+
+    for (const stake of stakes) {
+      const amount = stake.pendingRewards
+
+      // Guarded on the pending amount so a concurrent claim cannot pay it twice
+      const reset = await tx.staking.updateMany({
+        where: { id: stake.id, pendingRewards: amount },
+        data: {
+          pendingRewards: 0,
+          royaltiesEarned: { increment: amount },
+        },
+      })
+
+      if (reset.count === 0) continue
+
+      const ledgerTransaction = await postTransfer(
+        tx,
+        "staking_reward",
+        SYSTEM_ACCOUNTS.treasury,
+        userAccountCode(userId),
+        amount,
+        stake.id,
+      )
+
+      claims.push(
+        await tx.stakingClaim.create({
+          data: {
+            stakingId: stake.id,
+            userId,
+            amount,
+            ledgerTransactionId: ledgerTransaction.id,
+          },
+        }),
+      )
+    }
+
+    logger.info(`Staking rewards claimed by user ${userId}`, {
+      claims: claims.length,
+      total: claims.reduce((sum, claim) => sum + claim.amount, 0),
+    })
+
+    return claims
+  })
+}
+
+/**
+ * Start the periodic accrual job
+ * @returns Interval handle
+ */
+export function startStakingRewardsScheduler() {
+  const run = () => {
+    accrueRewards().catch((error) => {
+      logger.error(`Error accruing staking rewards: ${error}`)
+    })
+  }
+
+  run()
+  logger.info(`Staking rewards accrual scheduled every ${accrualIntervalMinutes} minutes`)
+
+  return setInterval(run, accrualIntervalMinutes * 60 * 1000)
+}
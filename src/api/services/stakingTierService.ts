@@ -0,0 +1,171 @@
+import { PrismaClient, type Staking } from "@prisma/client"
+import { getBaseRewardApr, getRewardApr } from "./stakingRewardsService"
+import { roundAmount } from "../utils/amounts"
+
+const prisma = new PrismaClient()
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Lock terms offered to stakers; `id` is null for the built-in default tier
+export interface TierTerms {
+  id: string | null
+  name: string | null
+  lockDays: number
+  rewardMultiplier: number
+  earlyExitAllowed: boolean
+  earlyExitPenaltyPercent: number
+}
+
+// Offered when the artist has not configured any tiers: the original fixed 90-day lock
+export const DEFAULT_TIER: TierTerms = {
+  id: null,
+  name: "Standard",
+  lockDays: 90,
+  rewardMultiplier: 1,
+  earlyExitAllowed: false,
+  earlyExitPenaltyPercent: 0,
+}
+
+/**
+ * Get the staking tiers offered on an NFT
+ * @param nftId ID of the NFT
+ * @returns Configured tiers ordered by lock length, or the default tier
+ */
+export async function getTiers(nftId: string): Promise<TierTerms[]> {
+  const tiers = await prisma.stakingTier.findMany({
+    where: { nftId },
+    orderBy: { lockDays: "asc" },
+  })
+
+  if (tiers.length === 0) {
+    return [DEFAULT_TIER]
+  }
+
+  return tiers.map((tier) => ({
+    id: tier.id,
+    name: tier.name,
+    lockDays: tier.lockDays,
+    rewardMultiplier: tier.rewardMultiplier,
+    earlyExitAllowed: tier.earlyExitAllowed,
+    earlyExitPenaltyPercent: tier.earlyExitPenaltyPercent,
+  }))
+}
+
+/**
+ * Pick the tier a staker asked for
+ * @param nftId ID of the NFT
+ * @param tierId Requested tier ID, if any
+ * @returns Matching tier, the first tier when none was requested, or null if the ID is unknown
+ */
+export async function resolveTier(nftId: string, tierId?: string): Promise<TierTerms | null> {
+  const tiers = await getTiers(nftId)
+
+  if (!tierId) {
+    return tiers[0]
+  }
+
+  return tiers.find((tier) => tier.id === tierId) ?? null
+}
+
+// Tier definition submitted by an artist, with optional fields defaulted
+export type TierInput = Omit<TierTerms, "id">
+
+/**
+ * Validate tier definitions submitted by an artist
+ * @param input Raw tier definitions
+ * @returns Tiers with defaults applied, or an error message if invalid
+ */
+export function validateTiers(
+  input: unknown,
+): { tiers: TierInput[]; error?: undefined } | { tiers?: undefined; error: string } {
+  if (!Array.isArray(input) || input.length === 0) {
+    return { error: "At least one tier is required" }
+  }
+
+  const tiers: TierInput[] = []
+  const lockDays = new Set<number>()
+
+  for (const tier of input) {
+    if (!Number.isInteger(tier?.lockDays) || tier.lockDays <= 0) {
+      return { error: "lockDays must be a positive integer" }
+    }
+
+    if (lockDays.has(tier.lockDays)) {
+      return { error: `Duplicate tier for ${tier.lockDays} days` }
+    }
+    lockDays.add(tier.lockDays)
+
+    if (tier.name !== undefined && tier.name !== null && typeof tier.name !== "string") {
+      return { error: "name must be a string" }
+    }
+
+    const multiplier = tier.rewardMultiplier
+    if (multiplier !== undefined && !(typeof multiplier === "number" && multiplier > 0)) {
+      return { error: "rewardMultiplier must be a positive number" }
+    }
+
+    const penalty = tier.earlyExitPenaltyPercent
+    if (penalty !== undefined && !(typeof penalty === "number" && penalty >= 0 && penalty <= 100)) {
+      return { error: "earlyExitPenaltyPercent must be between 0 and 100" }
+    }
+
+    tiers.push({
+      name: tier.name ?? null,
+      lockDays: tier.lockDays,
+      rewardMultiplier: multiplier ?? 1,
+      earlyExitAllowed: !!tier.earlyExitAllowed,
+      earlyExitPenaltyPercent: penalty ?? 0,
+    })
+  }
+
+  return { tiers }
+}
+
+/**
+ * Quote a new stake before the staker commits
+ * @param tier Chosen tier
+ * @param amount Amount to stake
+ * @param now Quote instant
+ * @returns Unlock date, effective rate, projected reward and early exit terms
+ */
+export function quoteStake(tier: TierTerms, amount: number, now = new Date()) {
+  const apr = getRewardApr({ rewardMultiplier: tier.rewardMultiplier })
+  const unlockAt = new Date(now.getTime() + tier.lockDays * DAY_MS)
+
+  return {
+    tier,
+    amount,
+    unlockAt,
+    baseApr: getBaseRewardApr(),
+    apr,
+    projectedReward: roundAmount((amount * apr * tier.lockDays) / (100 * 365)),
+    earlyExit: {
+      allowed: tier.earlyExitAllowed,
+      penaltyPercent: tier.earlyExitPenaltyPercent,
+      penaltyAmount: roundAmount((amount * tier.earlyExitPenaltyPercent) / 100),
+    },
+  }
+}
+
+/**
+ * Quote leaving a stake before it unlocks
+ * @param stake Staking record
+ * @param now Quote instant
+ * @returns Whether early exit is possible, the penalty and the amount returned
+ */
+export function quoteEarlyExit(stake: Staking, now = new Date()) {
+  const isEarly = now < stake.unlockAt
+  const penaltyAmount = isEarly ? roundAmount((stake.amount * stake.earlyExitPenaltyPercent) / 100) : 0
+
+  return {
+    stakingId: stake.id,
+    isEarly,
+    allowed: !isEarly || stake.earlyExitAllowed,
+    unlockAt: stake.unlockAt,
+    amount: stake.amount,
+    penaltyPercent: isEarly ? stake.earlyExitPenaltyPercent : 0,
+    penaltyAmount,
+    amountReturned: roundAmount(stake.amount - penaltyAmount),
+    pendingRewards: stake.pendingRewards,
+  }
+}
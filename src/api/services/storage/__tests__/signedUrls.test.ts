@@ -0,0 +1,72 @@
+import { keyFromObjectUrl, objectUrl, signObjectUrl, verifyObjectSignature, type SignedParams } from "../signedUrls"
+
+// Read back the parameters a storage route would take from a signed URL
+function parseSignedUrl(url: string): { params: SignedParams; signature: string } {
+  const parsed = new URL(url)
+
+  return {
+    params: {
+      method: parsed.searchParams.get("method") as SignedParams["method"],
+      key: keyFromObjectUrl(url)!,
+      expires: Number(parsed.searchParams.get("expires")),
+      contentType: parsed.searchParams.get("contentType") ?? undefined,
+      isPublic: parsed.searchParams.get("public") === "1",
+    },
+    signature: parsed.searchParams.get("signature")!,
+  }
+}
+
+describe("objectUrl", () => {
+  it("encodes each path segment of the key", () => {
+    expect(objectUrl("audio/user 1/a&b.mp3")).toBe("http://storage.test/api/storage/audio/user%201/a%26b.mp3")
+  })
+})
+
+describe("keyFromObjectUrl", () => {
+  it("recovers the key of an object URL, ignoring the query", () => {
+    expect(keyFromObjectUrl(`${objectUrl("audio/user 1/a&b.mp3")}?signature=x`)).toBe("audio/user 1/a&b.mp3")
+  })
+
+  it("returns null for URLs of other hosts", () => {
+    expect(keyFromObjectUrl("https://bucket.s3.amazonaws.com/audio/a.mp3")).toBeNull()
+  })
+})
+
+describe("verifyObjectSignature", () => {
+  it("accepts the parameters of a signed URL", () => {
+    const url = signObjectUrl({ method: "PUT", key: "uploads/u/a.wav", contentType: "audio/wav", isPublic: true }, 60)
+    const { params, signature } = parseSignedUrl(url)
+
+    expect(verifyObjectSignature(params, signature)).toBe(true)
+  })
+
+  it.each<[string, Partial<SignedParams>]>([
+    ["method", { method: "PUT" }],
+    ["key", { key: "audio/u/other.mp3" }],
+    ["content type", { contentType: "audio/mpeg" }],
+    ["visibility", { isPublic: true }],
+  ])("rejects a request with a different %s", (_, change) => {
+    const { params, signature } = parseSignedUrl(signObjectUrl({ method: "GET", key: "audio/u/a.mp3" }, 60))
+
+    expect(verifyObjectSignature({ ...params, ...change }, signature)).toBe(false)
+  })
+
+  it("rejects an expired URL", () => {
+    const { params, signature } = parseSignedUrl(signObjectUrl({ method: "GET", key: "audio/u/a.mp3" }, -1))
+
+    expect(verifyObjectSignature(params, signature)).toBe(false)
+  })
+
+  it("rejects a tampered expiry", () => {
+    const { params, signature } = parseSignedUrl(signObjectUrl({ method: "GET", key: "audio/u/a.mp3" }, 60))
+
+    expect(verifyObjectSignature({ ...params, expires: params.expires + 3600 }, signature)).toBe(false)
+  })
+
+  it("rejects malformed signatures", () => {
+    const { params } = parseSignedUrl(signObjectUrl({ method: "GET", key: "audio/u/a.mp3" }, 60))
+
+    expect(verifyObjectSignature(params, "")).toBe(false)
+    expect(verifyObjectSignature(params, "not-hex")).toBe(false)
+  })
+})
@@ -0,0 +1,160 @@
+import fs from "fs"
+import path from "path"
+import type { Readable } from "stream"
+import {
+  StorageObjectNotFoundError,
+  type ObjectInfo,
+  type ObjectStream,
+  type ObjectSummary,
+  type PresignedUpload,
+  type StorageProvider,
+  type StoredObject,
+  type UploadOptions,
+} from "./storageProvider"
+import { keyFromObjectUrl, objectUrl, signObjectUrl } from "./signedUrls"
+
+interface ObjectMetadata {
+  contentType: string
+  isPublic: boolean
+}
+
+// Stores objects on local disk for development; they are served by the API under /api/storage
+export class LocalStorageProvider implements StorageProvider {
+  readonly name = "local"
+  private objectsDir: string
+  private metadataDir: string
+
+  constructor(rootDir: string) {
+    this.objectsDir = path.resolve(rootDir, "objects")
+    this.metadataDir = path.resolve(rootDir, "metadata")
+  }
+
+  // Resolve a key inside a directory, refusing keys that would escape it
+  private resolve(dir: string, key: string, suffix = ""): string {
+    const resolved = path.resolve(dir, key + suffix)
+    if (!resolved.startsWith(dir + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`)
+    }
+    return resolved
+  }
+
+  private resolveDir(relative: string): string {
+    const resolved = path.resolve(this.objectsDir, relative)
+    if (resolved !== this.objectsDir && !resolved.startsWith(this.objectsDir + path.sep)) {
+      throw new Error(`Invalid storage prefix: ${relative}`)
+    }
+    return resolved
+  }
+
+  async upload(key: string, body: Buffer | Readable, options: UploadOptions): Promise<StoredObject> {
+    const objectPath = this.resolve(this.objectsDir, key)
+    const metadataPath = this.resolve(this.metadataDir, key, ".json")
+    const metadata: ObjectMetadata = { contentType: options.contentType, isPublic: options.isPublic ?? true }
+
+    await fs.promises.mkdir(path.dirname(objectPath), { recursive: true })
+    await fs.promises.mkdir(path.dirname(metadataPath), { recursive: true })
+    await fs.promises.writeFile(objectPath, body)
+    await fs.promises.writeFile(metadataPath, JSON.stringify(metadata))
+
+    return { key, url: objectUrl(key) }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.promises.rm(this.resolve(this.objectsDir, key), { force: true })
+    await fs.promises.rm(this.resolve(this.metadataDir, key, ".json"), { force: true })
+  }
+
+  async presignDownload(key: string, expiresIn: number): Promise<string> {
+    return signObjectUrl({ method: "GET", key }, expiresIn)
+  }
+
+  async presignUpload(key: string, options: UploadOptions, expiresIn: number): Promise<PresignedUpload> {
+    const url = signObjectUrl(
+      { method: "PUT", key, contentType: options.contentType, isPublic: options.isPublic },
+      expiresIn,
+    )
+    return { url, headers: { "Content-Type": options.contentType } }
+  }
+
+  private async readMetadata(key: string): Promise<ObjectMetadata> {
+    try {
+      return JSON.parse(await fs.promises.readFile(this.resolve(this.metadataDir, key, ".json"), "utf8"))
+    } catch {
+      // Objects without metadata are treated as private binaries
+      return { contentType: "application/octet-stream", isPublic: false }
+    }
+  }
+
+  async head(key: string): Promise<ObjectInfo | null> {
+    let size: number
+    try {
+      size = (await fs.promises.stat(this.resolve(this.objectsDir, key))).size
+    } catch {
+      return null
+    }
+
+    const { contentType } = await this.readMetadata(key)
+    return { contentType, size }
+  }
+
+  async stream(key: string): Promise<ObjectStream> {
+    const objectPath = this.resolve(this.objectsDir, key)
+
+    let size: number
+    try {
+      size = (await fs.promises.stat(objectPath)).size
+    } catch {
+      throw new StorageObjectNotFoundError(key)
+    }
+
+    const metadata = await this.readMetadata(key)
+
+    return {
+      body: fs.createReadStream(objectPath),
+      contentType: metadata.contentType,
+      size,
+      isPublic: metadata.isPublic,
+    }
+  }
+
+  async list(prefix: string): Promise<ObjectSummary[]> {
+    const objects: ObjectSummary[] = []
+
+    const walk = async (dir: string) => {
+      let entries: fs.Dirent[]
+      try {
+        entries = await fs.promises.readdir(dir, { withFileTypes: true })
+      } catch {
+        return
+      }
+
+      for (const entry of entries) {
+        const entryPath = path.join(dir, entry.name)
+        if (entry.isDirectory()) {
+          await walk(entryPath)
+          continue
+        }
+
+        const key = path.relative(this.objectsDir, entryPath).split(path.sep).join("/")
+        if (key.startsWith(prefix)) {
+          const stats = await fs.promises.stat(entryPath)
+          objects.push({ key, size: stats.size, lastModified: stats.mtime })
+        }
+      }
+    }
+
+    // Only descend into the directory holding the prefix
+    const prefixDir = prefix.includes("/") ? prefix.slice(0, prefix.lastIndexOf("/")) : ""
+    await walk(this.resolveDir(prefixDir))
+
+    return objects
+  }
+
+  getUrl(key: string): string {
+    return objectUrl(key)
+  }
+
+  getKeyFromUrl(url: string): string | null {
+    return keyFromObjectUrl(url)
+  }
+}
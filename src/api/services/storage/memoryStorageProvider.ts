@@ -0,0 +1,86 @@
+import { Readable } from "stream"
+import { buffer } from "stream/consumers"
+import {
+  StorageObjectNotFoundError,
+  type ObjectInfo,
+  type ObjectStream,
+  type ObjectSummary,
+  type PresignedUpload,
+  type StorageProvider,
+  type StoredObject,
+  type UploadOptions,
+} from "./storageProvider"
+import { keyFromObjectUrl, objectUrl, signObjectUrl } from "./signedUrls"
+
+interface MemoryObject {
+  body: Buffer
+  contentType: string
+  isPublic: boolean
+  lastModified: Date
+}
+
+// Keeps objects in process memory; for tests and throwaway environments
+export class MemoryStorageProvider implements StorageProvider {
+  readonly name = "memory"
+  private objects = new Map<string, MemoryObject>()
+
+  async upload(key: string, body: Buffer | Readable, options: UploadOptions): Promise<StoredObject> {
+    this.objects.set(key, {
+      body: Buffer.isBuffer(body) ? Buffer.from(body) : await buffer(body),
+      contentType: options.contentType,
+      isPublic: options.isPublic ?? true,
+      lastModified: new Date(),
+    })
+    return { key, url: objectUrl(key) }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.objects.delete(key)
+  }
+
+  async presignDownload(key: string, expiresIn: number): Promise<string> {
+    return signObjectUrl({ method: "GET", key }, expiresIn)
+  }
+
+  async presignUpload(key: string, options: UploadOptions, expiresIn: number): Promise<PresignedUpload> {
+    const url = signObjectUrl(
+      { method: "PUT", key, contentType: options.contentType, isPublic: options.isPublic },
+      expiresIn,
+    )
+    return { url, headers: { "Content-Type": options.contentType } }
+  }
+
+  async head(key: string): Promise<ObjectInfo | null> {
+    const object = this.objects.get(key)
+    return object ? { contentType: object.contentType, size: object.body.length } : null
+  }
+
+  async stream(key: string): Promise<ObjectStream> {
+    const object = this.objects.get(key)
+
+    if (!object) {
+      throw new StorageObjectNotFoundError(key)
+    }
+
+    return {
+      body: Readable.from([object.body]),
+      contentType: object.contentType,
+      size: object.body.length,
+      isPublic: object.isPublic,
+    }
+  }
+
+  async list(prefix: string): Promise<ObjectSummary[]> {
+    return [...this.objects.entries()]
+      .filter(([key]) => key.startsWith(prefix))
+      .map(([key, object]) => ({ key, size: object.body.length, lastModified: object.lastModified }))
+  }
+
+  getUrl(key: string): string {
+    return objectUrl(key)
+  }
+
+  getKeyFromUrl(url: string): string | null {
+    return keyFromObjectUrl(url)
+  }
+}
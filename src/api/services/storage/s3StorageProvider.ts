@@ -0,0 +1,157 @@
+import AWS from "aws-sdk"
+import type { Readable } from "stream"
+import {
+  StorageObjectNotFoundError,
+  type ObjectInfo,
+  type ObjectStream,
+  type ObjectSummary,
+  type PresignedUpload,
+  type StorageProvider,
+  type StoredObject,
+  type UploadOptions,
+} from "./storageProvider"
+
+export interface S3StorageConfig {
+  bucket: string
+  region: string
+  accessKeyId?: string
+  secretAccessKey?: string
+}
+
+// Stores objects in an S3 bucket; the client is configured per instance rather than globally
+export class S3StorageProvider implements StorageProvider {
+  readonly name = "s3"
+  private s3: AWS.S3
+  private bucket: string
+  private region: string
+
+  constructor(config: S3StorageConfig) {
+    this.bucket = config.bucket
+    this.region = config.region
+    this.s3 = new AWS.S3({
+      region: config.region,
+      ...(config.accessKeyId && config.secretAccessKey
+        ? { credentials: { accessKeyId: config.accessKeyId, secretAccessKey: config.secretAccessKey } }
+        : {}),
+    })
+  }
+
+  async upload(key: string, body: Buffer | Readable, options: UploadOptions): Promise<StoredObject> {
+    const result = await this.s3
+      .upload({
+        Bucket: this.bucket,
+        Key: key,
+        Body: body,
+        ContentType: options.contentType,
+        ...((options.isPublic ?? true) ? { ACL: "public-read" } : {}),
+      })
+      .promise()
+
+    return { key, url: result.Location }
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.s3.deleteObject({ Bucket: this.bucket, Key: key }).promise()
+  }
+
+  async presignDownload(key: string, expiresIn: number): Promise<string> {
+    return this.s3.getSignedUrlPromise("getObject", {
+      Bucket: this.bucket,
+      Key: key,
+      Expires: expiresIn,
+    })
+  }
+
+  async presignUpload(key: string, options: UploadOptions, expiresIn: number): Promise<PresignedUpload> {
+    const isPublic = options.isPublic ?? true
+    const url = await this.s3.getSignedUrlPromise("putObject", {
+      Bucket: this.bucket,
+      Key: key,
+      ContentType: options.contentType,
+      Expires: expiresIn,
+      ...(isPublic ? { ACL: "public-read" } : {}),
+    })
+
+    // The ACL is part of the signature, so the client has to send it too
+    return {
+      url,
+      headers: { "Content-Type": options.contentType, ...(isPublic ? { "x-amz-acl": "public-read" } : {}) },
+    }
+  }
+
+  async head(key: string): Promise<ObjectInfo | null> {
+    try {
+      const head = await this.s3.headObject({ Bucket: this.bucket, Key: key }).promise()
+      return { contentType: head.ContentType || "application/octet-stream", size: head.ContentLength ?? 0 }
+    } catch (error) {
+      if ((error as AWS.AWSError).code === "NotFound") {
+        return null
+      }
+      throw error
+    }
+  }
+
+  async stream(key: string): Promise<ObjectStream> {
+    const head = await this.head(key)
+
+    if (!head) {
+      throw new StorageObjectNotFoundError(key)
+    }
+
+    return {
+      body: this.s3.getObject({ Bucket: this.bucket, Key: key }).createReadStream(),
+      contentType: head.contentType,
+      size: head.size,
+      // S3 serves public objects itself; anything streamed through the API is treated as private
+      isPublic: false,
+    }
+  }
+
+  async list(prefix: string): Promise<ObjectSummary[]> {
+    const objects: ObjectSummary[] = []
+    let continuationToken: string | undefined
+
+    do {
+      const page = await this.s3
+        .listObjectsV2({ Bucket: this.bucket, Prefix: prefix, ContinuationToken: continuationToken })
+        .promise()
+
+      for (const object of page.Contents ?? []) {
+        if (!object.Key) continue
+        objects.push({ key: object.Key, size: object.Size ?? 0, lastModified: object.LastModified ?? new Date(0) })
+      }
+
+      continuationToken = page.IsTruncated ? page.NextContinuationToken : undefined
+    } while (continuationToken)
+
+    return objects
+  }
+
+  getUrl(key: string): string {
+    const path = key.split("/").map(encodeURIComponent).join("/")
+    return `https://${this.bucket}.s3.${this.region}.amazonaws.com/${path}`
+  }
+
+  getKeyFromUrl(url: string): string | null {
+    let parsed: URL
+    try {
+      parsed = new URL(url)
+    } catch {
+      return null
+    }
+
+    const key = decodeURIComponent(parsed.pathname.replace(/^\//, ""))
+
+    // Virtual-hosted style: https://<bucket>.s3.<region>.amazonaws.com/<key>
+    if (parsed.hostname.startsWith(`${this.bucket}.`)) {
+      return key
+    }
+
+    // Path style: https://s3.<region>.amazonaws.com/<bucket>/<key>
+    if (key.startsWith(`${this.bucket}/`)) {
+      return key.slice(this.bucket.length + 1)
+    }
+
+    return null
+  }
+}
@@ -0,0 +1,82 @@
+import crypto from "crypto"
+
+// URLs and signatures for providers whose objects are served by the API itself (local and in-memory)
+
+const baseUrl = (process.env.STORAGE_PUBLIC_URL || `http://localhost:${process.env.PORT || 3001}/api/storage`).replace(
+  /\/$/,
+  "",
+)
+const signingSecret = process.env.STORAGE_SIGNING_SECRET || process.env.JWT_SECRET || "riffblock-storage"
+
+export type SignedMethod = "GET" | "PUT"
+
+export interface SignedParams {
+  method: SignedMethod
+  key: string
+  expires: number
+  contentType?: string
+  isPublic?: boolean
+}
+
+function sign(params: SignedParams): string {
+  const payload = [params.method, params.key, params.expires, params.contentType ?? "", params.isPublic ? "1" : "0"]
+  return crypto.createHmac("sha256", signingSecret).update(payload.join("\n")).digest("hex")
+}
+
+/**
+ * URL of an object served by the API
+ * @param key Object key
+ * @returns Object URL
+ */
+export function objectUrl(key: string): string {
+  return `${baseUrl}/${key.split("/").map(encodeURIComponent).join("/")}`
+}
+
+/**
+ * Build a signed URL for an object served by the API
+ * @param params Method, key and constraints covered by the signature (without `expires`)
+ * @param expiresIn Lifetime in seconds
+ * @returns Signed URL
+ */
+export function signObjectUrl(params: Omit<SignedParams, "expires">, expiresIn: number): string {
+  const expires = Math.floor(Date.now() / 1000) + expiresIn
+  const query = new URLSearchParams({ method: params.method, expires: String(expires) })
+
+  if (params.contentType) query.set("contentType", params.contentType)
+  if (params.isPublic) query.set("public", "1")
+  query.set("signature", sign({ ...params, expires }))
+
+  return `${objectUrl(params.key)}?${query}`
+}
+
+/**
+ * Check the signature and expiry of a signed request
+ * @param params Values taken from the request
+ * @param signature Signature from the query string
+ * @returns Whether the request is authorised
+ */
+export function verifyObjectSignature(params: SignedParams, signature: string): boolean {
+  if (!Number.isFinite(params.expires) || params.expires < Date.now() / 1000) {
+    return false
+  }
+
+  const expected = Buffer.from(sign(params), "hex")
+  const actual = Buffer.from(signature, "hex")
+
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual)
+}
+
+/**
+ * Recover the object key from a URL built by `objectUrl`
+ * @param url Object URL
+ * @returns Object key, or null for other URLs
+ */
+export function keyFromObjectUrl(url: string): string | null {
+  const withoutQuery = url.split("?")[0]
+
+  if (!withoutQuery.startsWith(`${baseUrl}/`)) {
+    return null
+  }
+
+  return withoutQuery.slice(baseUrl.length + 1).split("/").map(decodeURIComponent).join("/")
+}
@@ -0,0 +1,119 @@
+import type { Readable } from "stream"
+
+export interface UploadOptions {
+  contentType: string
+  // Public objects are readable by URL; private ones only through signed URLs
+  isPublic?: boolean
+}
+
+export interface StoredObject {
+  key: string
+  url: string
+}
+
+export interface ObjectStream {
+  body: Readable
+  contentType: string
+  size: number
+  isPublic: boolean
+}
+
+export interface ObjectInfo {
+  contentType: string
+  size: number
+}
+
+export interface ObjectSummary {
+  key: string
+  size: number
+  lastModified: Date
+}
+
+export interface PresignedUpload {
+  url: string
+  // Headers the client must send with the PUT request
+  headers: Record<string, string>
+}
+
+// Thrown when reading an object that does not exist
+export class StorageObjectNotFoundError extends Error {
+  constructor(key: string) {
+    super(`Storage object not found: ${key}`)
+    this.name = "StorageObjectNotFoundError"
+  }
+}
+
+/**
+ * Backend that stores uploaded files. Keys are slash-separated paths such as `riffs/<userId>/<file>`.
+ */
+export interface StorageProvider {
+  readonly name: string
+
+  /**
+   * Store an object, replacing any object with the same key
+   * @param key Object key
+   * @param body Content to store; large files can be passed as a stream
+   * @param options Content type and visibility
+   * @returns Key and URL of the stored object
+   */
+  upload(key: string, body: Buffer | Readable, options: UploadOptions): Promise<StoredObject>
+
+  /**
+   * Delete an object; deleting a missing object is not an error
+   * @param key Object key
+   */
+  delete(key: string): Promise<void>
+
+  /**
+   * Generate a short-lived URL to read an object, public or not
+   * @param key Object key
+   * @param expiresIn Lifetime in seconds
+   * @returns Signed URL
+   */
+  presignDownload(key: string, expiresIn: number): Promise<string>
+
+  /**
+   * Generate a short-lived URL the client can PUT the object to directly
+   * @param key Object key
+   * @param options MIME type the client must send and visibility of the object
+   * @param expiresIn Lifetime in seconds
+   * @returns Signed URL and the headers to send with it
+   */
+  presignUpload(key: string, options: UploadOptions, expiresIn: number): Promise<PresignedUpload>
+
+  /**
+   * Look up an object without reading it
+   * @param key Object key
+   * @returns Content type and size, or null if the object does not exist
+   */
+  head(key: string): Promise<ObjectInfo | null>
+
+  /**
+   * Read an object
+   * @param key Object key
+   * @returns Content stream with its type and size
+   * @throws StorageObjectNotFoundError if the object does not exist
+   */
+  stream(key: string): Promise<ObjectStream>
+
+  /**
+   * List the objects whose keys start with a prefix
+   * @param prefix Key prefix, e.g. `riffs/`
+   * @returns Matching objects
+   */
+  list(prefix: string): Promise<ObjectSummary[]>
+
+  /**
+   * URL of an object, as `upload` would return it
+   * @param key Object key
+   * @returns Object URL (private objects are only readable through a presigned URL)
+   */
+  getUrl(key: string): string
+
+  /**
+   * Recover the key of an object from a URL returned by `upload`
+   * @param url Object URL
+   * @returns Object key, or null if the URL does not belong to this provider
+   */
+  getKeyFromUrl(url: string): string | null
+}
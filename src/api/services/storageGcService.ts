@@ -0,0 +1,157 @@
+import { PrismaClient, type Riff } from "@prisma/client"
+import { getStorage } from "./storageService"
+import type { ObjectSummary } from "./storage/storageProvider"
+import logger from "../../config/logger"
+
+const prisma = new PrismaClient()
+
+// Prefixes holding riff files; anything under them must be referenced by a riff, an unlockable, a collection
+// cover or a pending upload
+const GC_PREFIXES = ["riffs/", "covers/", "previews/", "unlockables/"]
+
+// Objects younger than this may belong to an upload whose riff row is still being written
+const gcGraceMinutes = Number.parseFloat(process.env.STORAGE_GC_GRACE_MINUTES || "60")
+// 0 disables the scheduled run
+const gcIntervalHours = Number.parseFloat(process.env.STORAGE_GC_INTERVAL_HOURS || "24")
+const gcPurge = process.env.STORAGE_GC_PURGE === "true"
+
+export interface StorageReconciliationReport {
+  scanned: number
+  orphans: ObjectSummary[]
+  // Keys referenced by riffs that are missing from storage
+  missing: { riffId: string; key: string }[]
+  purged: number
+}
+
+/**
+ * Storage keys of the files belonging to a riff
+ * @param riff Riff with its file references
+ * @returns Keys of the audio, preview and cover image
+ */
+export function getRiffObjectKeys(riff: Pick<Riff, "audioKey" | "audioUrl" | "previewUrl" | "coverImageUrl">) {
+  const storage = getStorage()
+  const keys = [
+    riff.audioKey ?? storage.getKeyFromUrl(riff.audioUrl),
+    riff.previewUrl ? storage.getKeyFromUrl(riff.previewUrl) : null,
+    riff.coverImageUrl ? storage.getKeyFromUrl(riff.coverImageUrl) : null,
+  ]
+  return keys.filter((key): key is string => !!key)
+}
+
+/**
+ * Delete stored objects, logging failures instead of throwing; leftovers are caught by reconciliation
+ * @param keys Object keys
+ * @param context Extra fields for the log
+ * @returns Number of objects deleted
+ */
+export async function deleteObjects(keys: string[], context: Record<string, unknown> = {}) {
+  const storage = getStorage()
+  let deleted = 0
+
+  for (const key of keys) {
+    try {
+      await storage.delete(key)
+      deleted++
+    } catch (error) {
+      logger.error(`Error deleting storage object: ${error}`, { ...context, key })
+    }
+  }
+
+  logger.debug(`Storage objects deleted`, { ...context, deleted, requested: keys.length })
+  return deleted
+}
+
+/**
+ * Compare stored riff files with the database and optionally delete orphans
+ * @param purge Delete orphaned objects instead of only reporting them
+ * @param now Reference instant for the grace period
+ * @returns Reconciliation report
+ */
+export async function reconcileStorage(purge = false, now = new Date()): Promise<StorageReconciliationReport> {
+  const storage = getStorage()
+
+  const [riffs, unlockables, collections, uploads] = await Promise.all([
+    prisma.riff.findMany({
+      select: { id: true, audioKey: true, audioUrl: true, previewUrl: true, coverImageUrl: true },
+    }),
+    prisma.unlockable.findMany({
+      where: { fileKey: { not: null } },
+      select: { fileKey: true, nft: { select: { riffId: true } } },
+    }),
+    prisma.collection.findMany({
+      where: { coverImageUrl: { not: null } },
+      select: { coverImageUrl: true },
+    }),
+    prisma.riffUpload.findMany({
+      where: { status: "pending" },
+      select: { audioKey: true, coverImageKey: true },
+    }),
+  ])
+
+  const referenced = new Map<string, string>()
+  for (const riff of riffs) {
+    for (const key of getRiffObjectKeys(riff)) {
+      referenced.set(key, riff.id)
+    }
+  }
+  for (const unlockable of unlockables) {
+    if (unlockable.fileKey) referenced.set(unlockable.fileKey, unlockable.nft.riffId)
+  }
+
+  // Keys kept alive without belonging to a riff; not reported as missing
+  const otherKeys = new Set([
+    ...uploads.flatMap((upload) => [upload.audioKey, upload.coverImageKey ?? ""]),
+    ...collections.map((collection) => storage.getKeyFromUrl(collection.coverImageUrl!) ?? ""),
+  ])
+
+  const stored = (await Promise.all(GC_PREFIXES.map((prefix) => storage.list(prefix)))).flat()
+  const storedKeys = new Set(stored.map((object) => object.key))
+  const graceCutoff = now.getTime() - gcGraceMinutes * 60 * 1000
+
+  const orphans = stored.filter(
+    (object) =>
+      !referenced.has(object.key) && !otherKeys.has(object.key) && object.lastModified.getTime() < graceCutoff,
+  )
+
+  const missing = [...referenced.entries()]
+    .filter(([key]) => GC_PREFIXES.some((prefix) => key.startsWith(prefix)) && !storedKeys.has(key))
+    .map(([key, riffId]) => ({ riffId, key }))
+
+  const purged = purge ? await deleteObjects(orphans.map((object) => object.key), { job: "storage-gc" }) : 0
+
+  logger.info(`Storage reconciliation finished`, {
+    provider: storage.name,
+    scanned: stored.length,
+    orphans: orphans.length,
+    orphanBytes: orphans.reduce((sum, object) => sum + object.size, 0),
+    missing: missing.length,
+    purged,
+  })
+
+  if (missing.length > 0) {
+    logger.warn(`Riffs reference missing storage objects`, { missing: missing.slice(0, 20) })
+  }
+
+  return { scanned: stored.length, orphans, missing, purged }
+}
+
+/**
+ * Start the periodic reconciliation job, if enabled
+ * @returns Interval handle, or null when disabled
+ */
+export function startStorageGcScheduler() {
+  if (gcIntervalHours <= 0) {
+    logger.info("Storage reconciliation schedule disabled")
+    return null
+  }
+
+  const run = () => {
+    reconcileStorage(gcPurge).catch((error) => {
+      logger.error(`Error reconciling storage: ${error}`)
+    })
+  }
+
+  logger.info(`Storage reconciliation scheduled every ${gcIntervalHours} hours`, { purge: gcPurge })
+
+  return setInterval(run, gcIntervalHours * 60 * 60 * 1000)
+}
@@ -0,0 +1,118 @@
+import { PrismaClient, type NFT, type Riff, type Unlockable } from "@prisma/client"
+import { getTokenOwner } from "./blockchainService"
+import { getSignedDownloadUrl } from "./storageService"
+import logger from "../../config/logger"
+
+const prisma = new PrismaClient()
+
+export const UNLOCKABLE_TYPES = ["sourceFile", "remixPack", "backstagePost"] as const
+export type UnlockableType = (typeof UNLOCKABLE_TYPES)[number]
+
+// NFT flag that has to be enabled for each type of unlockable to be attached or served
+export const UNLOCKABLE_FLAGS: Record<UnlockableType, keyof NFT> = {
+  sourceFile: "unlockSourceFiles",
+  remixPack: "unlockRemixRights",
+  backstagePost: "unlockBackstageContent",
+}
+
+export function isUnlockableType(value: unknown): value is UnlockableType {
+  return UNLOCKABLE_TYPES.includes(value as UnlockableType)
+}
+
+export type UnlockableRole = "artist" | "owner" | "wallet"
+
+export interface UnlockableAccess {
+  role: UnlockableRole
+  // Verified wallet holding the token on-chain, for the "wallet" role
+  walletAddress?: string
+}
+
+/**
+ * Check whether a user may see an NFT's unlockables: the artist who attached them, the owner on record,
+ * or a user whose verified wallet holds the token on-chain (e.g. after a transfer outside the platform)
+ * @param nft NFT with its riff
+ * @param userId ID of the requesting user
+ * @returns How access is granted, or null if it is not
+ */
+export async function getUnlockableAccess(nft: NFT & { riff: Riff }, userId: string): Promise<UnlockableAccess | null> {
+  if (nft.riff.userId === userId) {
+    return { role: "artist" }
+  }
+
+  // Only a minted token has a holder
+  if (nft.status !== "confirmed") {
+    return null
+  }
+
+  if (nft.ownerId === userId) {
+    return { role: "owner" }
+  }
+
+  if (!nft.tokenId || !nft.contractAddress) {
+    return null
+  }
+
+  const wallets = await prisma.wallet.findMany({ where: { userId }, select: { address: true } })
+  if (wallets.length === 0) {
+    return null
+  }
+
+  const owner = await getTokenOwner(nft.tokenId, nft.contractAddress)
+  const wallet = owner ? wallets.find((candidate) => candidate.address.toLowerCase() === owner.toLowerCase()) : null
+
+  return wallet ? { role: "wallet", walletAddress: wallet.address } : null
+}
+
+/**
+ * Check whether an unlockable is currently served; turning the NFT's flag off hides it from holders
+ * @param nft NFT the unlockable belongs to
+ * @param unlockable Unlockable to check
+ * @returns Whether holders can see it
+ */
+export function isUnlockableEnabled(nft: NFT, unlockable: Pick<Unlockable, "type">): boolean {
+  return isUnlockableType(unlockable.type) && !!nft[UNLOCKABLE_FLAGS[unlockable.type]]
+}
+
+/**
+ * Record an access to an NFT's unlockables
+ * @param nftId ID of the NFT
+ * @param userId ID of the user
+ * @param action "list" or "download"
+ * @param access How access was granted
+ * @param details Unlockable accessed and the client's IP address
+ */
+export async function logUnlockableAccess(
+  nftId: string,
+  userId: string,
+  action: "list" | "download",
+  access: UnlockableAccess,
+  details: { unlockableId?: string; ipAddress?: string } = {},
+) {
+  await prisma.unlockableAccessLog.create({
+    data: {
+      nftId,
+      userId,
+      action,
+      role: access.role,
+      walletAddress: access.walletAddress,
+      unlockableId: details.unlockableId,
+      ipAddress: details.ipAddress,
+    },
+  })
+
+  logger.info(`Unlockable ${action} by ${access.role}`, { nftId, userId, unlockableId: details.unlockableId })
+}
+
+/**
+ * Issue a short-lived download URL for an unlockable's file
+ * @param unlockable Unlockable with a stored file
+ * @returns Signed URL and its expiry, or null if the unlockable has no file
+ */
+export async function signUnlockableDownload(unlockable: Unlockable) {
+  if (!unlockable.fileKey) {
+    return null
+  }
+
+  logger.debug(`Signing unlockable download: ${unlockable.id}`, { key: unlockable.fileKey })
+  return getSignedDownloadUrl(unlockable.fileKey)
+}
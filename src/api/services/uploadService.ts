@@ -0,0 +1,243 @@
+import { PrismaClient, type RiffUpload } from "@prisma/client"
+import { getStorage, safeKeyFilename } from "./storageService"
+import { deleteObjects } from "./storageGcService"
+import { isSupportedMimeType, normalizeMimeType, verifyFileType } from "../utils/fileSignatures"
+import logger from "../../config/logger"
+
+const prisma = new PrismaClient()
+
+// Same limit as multipart riff uploads
+export const MAX_UPLOAD_BYTES = 25 * 1024 * 1024
+
+// Presigned PUT URLs expire well before the upload itself, which allows a late finalize
+const uploadUrlTtlSeconds = Number.parseInt(process.env.UPLOAD_URL_TTL_SECONDS || "900", 10)
+const uploadTtlMinutes = Number.parseFloat(process.env.UPLOAD_TTL_MINUTES || "60")
+const cleanupIntervalMinutes = Number.parseFloat(process.env.UPLOAD_CLEANUP_INTERVAL_MINUTES || "15")
+
+export type UploadKind = "audio" | "coverImage"
+
+export interface UploadFileRequest {
+  filename: string
+  contentType: string
+  size: number
+}
+
+/**
+ * Validate a file an uploader intends to PUT directly to storage
+ * @param kind Audio or cover image
+ * @param file Declared name, type and size
+ * @returns Error message, or null if valid
+ */
+export function validateUploadFile(kind: UploadKind, file: any): string | null {
+  if (!file || typeof file.filename !== "string" || file.filename.trim() === "") {
+    return `${kind}.filename is required`
+  }
+
+  const fileKind = kind === "audio" ? "audio" : "image"
+  if (typeof file.contentType !== "string" || !isSupportedMimeType(fileKind, file.contentType)) {
+    return `${kind}.contentType is not a supported ${fileKind} format`
+  }
+
+  if (!Number.isInteger(file.size) || file.size <= 0 || file.size > MAX_UPLOAD_BYTES) {
+    return `${kind}.size must be between 1 and ${MAX_UPLOAD_BYTES} bytes`
+  }
+
+  return null
+}
+
+/**
+ * Reserve storage keys for a direct upload and presign the PUT requests
+ * @param userId ID of the uploader
+ * @param audio Declared audio file
+ * @param coverImage Declared cover image, if any
+ * @returns Upload record and the presigned requests to make
+ */
+export async function createUpload(userId: string, audio: UploadFileRequest, coverImage?: UploadFileRequest) {
+  const storage = getStorage()
+  const prefix = `${Date.now()}-${Math.round(Math.random() * 1e9)}`
+  const audioKey = `riffs/${userId}/${prefix}-${safeKeyFilename(audio.filename)}`
+  const coverImageKey = coverImage ? `covers/${userId}/${prefix}-${safeKeyFilename(coverImage.filename)}` : null
+  // Stored with canonical types so the finalize check compares like with like
+  const audioContentType = normalizeMimeType(audio.contentType)
+  const coverImageContentType = coverImage ? normalizeMimeType(coverImage.contentType) : null
+
+  const upload = await prisma.riffUpload.create({
+    data: {
+      userId,
+      audioKey,
+      audioFilename: audio.filename,
+      audioContentType,
+      audioSize: audio.size,
+      coverImageKey,
+      coverImageContentType,
+      coverImageSize: coverImage?.size,
+      expiresAt: new Date(Date.now() + uploadTtlMinutes * 60 * 1000),
+    },
+  })
+
+  // Full-quality audio is private; covers are public like multipart uploads
+  const audioRequest = await storage.presignUpload(
+    audioKey,
+    { contentType: audioContentType, isPublic: false },
+    uploadUrlTtlSeconds,
+  )
+  const coverImageRequest =
+    coverImageKey && coverImageContentType
+      ? await storage.presignUpload(coverImageKey, { contentType: coverImageContentType }, uploadUrlTtlSeconds)
+      : null
+
+  logger.info(`Direct upload created: ${upload.id}`, { userId, audioKey, coverImageKey })
+
+  return {
+    upload,
+    audio: { key: audioKey, method: "PUT", ...audioRequest },
+    coverImage: coverImageRequest ? { key: coverImageKey, method: "PUT", ...coverImageRequest } : null,
+    urlExpiresAt: new Date(Date.now() + uploadUrlTtlSeconds * 1000),
+  }
+}
+
+/**
+ * Check that the client uploaded exactly the files it declared
+ * @param upload Upload record
+ * @returns Error message, or null if every object is in place
+ */
+export async function verifyUploadedObjects(upload: RiffUpload): Promise<string | null> {
+  const storage = getStorage()
+  const expected = [
+    { kind: "audio", key: upload.audioKey, contentType: upload.audioContentType, size: upload.audioSize },
+    ...(upload.coverImageKey
+      ? [
+          {
+            kind: "coverImage",
+            key: upload.coverImageKey,
+            contentType: upload.coverImageContentType,
+            size: upload.coverImageSize,
+          },
+        ]
+      : []),
+  ]
+
+  for (const file of expected) {
+    const info = await storage.head(file.key)
+
+    if (!info) {
+      return `${file.kind} has not been uploaded`
+    }
+
+    if (info.size !== file.size) {
+      return `${file.kind} is ${info.size} bytes, expected ${file.size}`
+    }
+
+    if (info.contentType !== file.contentType) {
+      return `${file.kind} has type ${info.contentType}, expected ${file.contentType}`
+    }
+  }
+
+  return null
+}
+
+/**
+ * Check that the uploaded files really are the formats they were declared as
+ * @param upload Upload record
+ * @param audioBuffer Content of the uploaded audio
+ * @returns Error message, or null if the content matches
+ */
+export async function verifyUploadedContent(upload: RiffUpload, audioBuffer: Buffer): Promise<string | null> {
+  const audio = verifyFileType(audioBuffer, "audio", upload.audioContentType)
+  if (audio.error) {
+    return `audio: ${audio.error}`
+  }
+
+  if (upload.coverImageKey && upload.coverImageContentType) {
+    const coverImage = verifyFileType(await readObject(upload.coverImageKey), "image", upload.coverImageContentType)
+    if (coverImage.error) {
+      return `coverImage: ${coverImage.error}`
+    }
+  }
+
+  return null
+}
+
+/**
+ * Discard an upload whose files failed verification
+ * @param upload Upload record
+ */
+export async function rejectUpload(upload: RiffUpload) {
+  const rejected = await prisma.riffUpload.updateMany({
+    where: { id: upload.id, status: "pending" },
+    data: { status: "rejected" },
+  })
+
+  if (rejected.count > 0) {
+    const keys = [upload.audioKey, upload.coverImageKey].filter((key): key is string => !!key)
+    await deleteObjects(keys, { uploadId: upload.id })
+    logger.info(`Direct upload rejected: ${upload.id}`, { userId: upload.userId })
+  }
+}
+
+/**
+ * Read a stored object fully into memory
+ * @param key Object key
+ * @returns Object content
+ */
+export async function readObject(key: string): Promise<Buffer> {
+  const { body } = await getStorage().stream(key)
+  const chunks: Buffer[] = []
+
+  for await (const chunk of body) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk))
+  }
+
+  return Buffer.concat(chunks)
+}
+
+/**
+ * Delete the objects of uploads that were never finalized
+ * @param now Expiry instant
+ * @returns Number of uploads expired
+ */
+export async function expireUploads(now = new Date()) {
+  const uploads = await prisma.riffUpload.findMany({
+    where: { status: "pending", expiresAt: { lt: now } },
+  })
+
+  let expired = 0
+
+  for (const upload of uploads) {
+    // Guarded so an upload finalized in the meantime keeps its objects
+    const claimed = await prisma.riffUpload.updateMany({
+      where: { id: upload.id, status: "pending" },
+      data: { status: "expired" },
+    })
+
+    if (claimed.count === 0) continue
+
+    const keys = [upload.audioKey, upload.coverImageKey].filter((key): key is string => !!key)
+    await deleteObjects(keys, { uploadId: upload.id })
+
+    expired++
+  }
+
+  if (expired > 0) {
+    logger.info(`Expired direct uploads cleaned up`, { expired })
+  }
+
+  return expired
+}
+
+/**
+ * Start the periodic cleanup of unfinalized uploads
+ * @returns Interval handle
+ */
+export function startUploadCleanupScheduler() {
+  const run = () => {
+    expireUploads().catch((error) => {
+      logger.error(`Error expiring direct uploads: ${error}`)
+    })
+  }
+
+  run()
+  logger.info(`Direct upload cleanup scheduled every ${cleanupIntervalMinutes} minutes`)
+
+  return setInterval(run, cleanupIntervalMinutes * 60 * 1000)
+}
@@ -0,0 +1,57 @@
+import { PrismaClient } from "@prisma/client"
+
+const prisma = new PrismaClient()
+
+// Aggregates shown on public artist profiles
+export interface ArtistStats {
+  riffCount: number
+  collectionCount: number
+  followerCount: number
+  followingCount: number
+  tipCount: number
+  tipsReceived: number
+  nftsMinted: number
+  // Distinct users with an active stake on any of the artist's riffs
+  stakerCount: number
+  totalStaked: number
+}
+
+/**
+ * Compute the aggregate stats of an artist's work
+ * @param userId ID of the artist
+ * @returns Riff, collection, follower, tip, NFT and staking aggregates
+ */
+export async function getArtistStats(userId: string): Promise<ArtistStats> {
+  const onTheirRiffs = { riff: { userId } }
+
+  const [riffCount, collectionCount, followerCount, followingCount, tips, nftsMinted, stakes] = await Promise.all([
+    prisma.riff.count({ where: { userId } }),
+    prisma.collection.count({ where: { userId } }),
+    prisma.userFollow.count({ where: { followingId: userId } }),
+    prisma.userFollow.count({ where: { followerId: userId } }),
+    prisma.tip.aggregate({
+      where: onTheirRiffs,
+      _count: { _all: true },
+      _sum: { amount: true },
+    }),
+    prisma.nFT.count({ where: { ...onTheirRiffs, status: "confirmed" } }),
+    // Grouped per staker so each user is counted once
+    prisma.staking.groupBy({
+      by: ["userId"],
+      where: { ...onTheirRiffs, status: { not: "withdrawn" } },
+      _sum: { amount: true },
+    }),
+  ])
+
+  return {
+    riffCount,
+    collectionCount,
+    followerCount,
+    followingCount,
+    tipCount: tips._count._all,
+    tipsReceived: tips._sum.amount ?? 0,
+    nftsMinted,
+    stakerCount: stakes.length,
+    totalStaked: stakes.reduce((sum, group) => sum + (group._sum.amount ?? 0), 0),
+  }
+}
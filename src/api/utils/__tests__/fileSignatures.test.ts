@@ -0,0 +1,76 @@
+import { detectFileType, isSupportedMimeType, normalizeMimeType, verifyFileType } from "../fileSignatures"
+
+// Leading bytes followed by zero padding up to a realistic file head
+function bytes(...parts: (string | number[])[]) {
+  const head = parts.map((part) => (typeof part === "string" ? Buffer.from(part, "ascii") : Buffer.from(part)))
+  return Buffer.concat([...head, Buffer.alloc(16)])
+}
+
+function ftyp(brand: string) {
+  return bytes([0, 0, 0, 0x20], "ftyp", brand)
+}
+
+describe("detectFileType", () => {
+  it.each([
+    ["wav", bytes("RIFF", [0, 0, 0, 0], "WAVE")],
+    ["webp", bytes("RIFF", [0, 0, 0, 0], "WEBP")],
+    ["flac", bytes("fLaC")],
+    ["ogg", bytes("OggS")],
+    ["mp3", bytes("ID3", [4, 0])],
+    ["mp3", bytes([0xff, 0xfb, 0x90, 0xc0])],
+    ["aac", bytes([0xff, 0xf1, 0x50, 0x80])],
+    ["m4a", ftyp("M4A ")],
+    ["jpeg", bytes([0xff, 0xd8, 0xff, 0xe0])],
+    ["png", bytes([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])],
+  ])("detects %s", (format, buffer) => {
+    expect(detectFileType(buffer)?.format).toBe(format)
+  })
+
+  it.each(["isom", "mp42", "iso2", "dash", "qt  "])("does not take a %s video container for M4A audio", (brand) => {
+    expect(detectFileType(ftyp(brand))).toBeNull()
+  })
+
+  it("rejects an MPEG sync word with reserved header values", () => {
+    expect(detectFileType(bytes([0xff, 0xfb, 0xf0, 0xc0]))).toBeNull()
+  })
+
+  it("rejects unknown and truncated content", () => {
+    expect(detectFileType(bytes("%PDF-1.7"))).toBeNull()
+    expect(detectFileType(Buffer.from("RIFF", "ascii"))).toBeNull()
+  })
+})
+
+describe("normalizeMimeType", () => {
+  it("maps aliases and drops parameters", () => {
+    expect(normalizeMimeType("audio/MP3")).toBe("audio/mpeg")
+    expect(normalizeMimeType("audio/x-wav; codecs=1")).toBe("audio/wav")
+  })
+})
+
+describe("isSupportedMimeType", () => {
+  it("checks the declared type against the expected kind", () => {
+    expect(isSupportedMimeType("audio", "audio/x-m4a")).toBe(true)
+    expect(isSupportedMimeType("audio", "image/png")).toBe(false)
+    expect(isSupportedMimeType("image", "image/gif")).toBe(false)
+  })
+})
+
+describe("verifyFileType", () => {
+  const mp3 = bytes("ID3", [4, 0])
+
+  it("accepts content matching its declared type", () => {
+    expect(verifyFileType(mp3, "audio", "audio/mp3").type?.mimeType).toBe("audio/mpeg")
+  })
+
+  it("rejects content of the wrong kind", () => {
+    expect(verifyFileType(bytes([0xff, 0xd8, 0xff, 0xe0]), "audio", "audio/mpeg")).toEqual({
+      error: "File content is not a supported audio format",
+    })
+  })
+
+  it("rejects content that does not match the declared type", () => {
+    expect(verifyFileType(mp3, "audio", "audio/wav")).toEqual({
+      error: "File content is audio/mpeg but was declared as audio/wav",
+    })
+  })
+})
@@ -0,0 +1,12 @@
+// Token amounts are stored as floats and rounded to this many decimals wherever they are computed
+export const AMOUNT_DECIMALS = 8
+
+/**
+ * Round an amount to AMOUNT_DECIMALS decimals
+ * @param amount Amount to round
+ * @returns Rounded amount
+ */
+export function roundAmount(amount: number): number {
+  const factor = 10 ** AMOUNT_DECIMALS
+  return Math.round(amount * factor) / factor
+}
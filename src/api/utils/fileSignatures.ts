@@ -0,0 +1,150 @@
+// Content-based file type detection for uploads; clients' declared MIME types and extensions are not trusted
+
+export type FileKind = "audio" | "image"
+
+export interface DetectedFileType {
+  format: "mp3" | "wav" | "flac" | "ogg" | "aac" | "m4a" | "jpeg" | "png" | "webp"
+  kind: FileKind
+  mimeType: string
+  extension: string
+}
+
+// Bytes needed to recognise every supported format
+export const SIGNATURE_BYTES = 16
+
+// Audio-only brands of ISO base media files; generic brands such as isom and mp42 are shared with video
+const M4A_BRANDS = ["M4A ", "M4B ", "M4P ", "F4A "]
+
+// Common non-canonical MIME types sent by browsers and clients
+const MIME_ALIASES: Record<string, string> = {
+  "audio/mp3": "audio/mpeg",
+  "audio/mpeg3": "audio/mpeg",
+  "audio/x-mp3": "audio/mpeg",
+  "audio/x-mpeg": "audio/mpeg",
+  "audio/x-wav": "audio/wav",
+  "audio/wave": "audio/wav",
+  "audio/vnd.wave": "audio/wav",
+  "audio/x-flac": "audio/flac",
+  "application/ogg": "audio/ogg",
+  "audio/vorbis": "audio/ogg",
+  "audio/opus": "audio/ogg",
+  "audio/x-aac": "audio/aac",
+  "audio/aacp": "audio/aac",
+  "audio/x-m4a": "audio/mp4",
+  "audio/m4a": "audio/mp4",
+  "image/jpg": "image/jpeg",
+  "image/pjpeg": "image/jpeg",
+  "image/x-png": "image/png",
+}
+
+const SUPPORTED_MIME_TYPES: Record<FileKind, string[]> = {
+  audio: ["audio/mpeg", "audio/wav", "audio/flac", "audio/ogg", "audio/aac", "audio/mp4"],
+  image: ["image/jpeg", "image/png", "image/webp"],
+}
+
+/**
+ * Map a declared MIME type to the canonical type used for comparison and storage
+ * @param mimeType Declared MIME type
+ * @returns Canonical MIME type
+ */
+export function normalizeMimeType(mimeType: string): string {
+  const base = mimeType.split(";")[0].trim().toLowerCase()
+  return MIME_ALIASES[base] ?? base
+}
+
+/**
+ * Check whether a declared MIME type is one of the supported upload formats
+ * @param kind Audio or image
+ * @param mimeType Declared MIME type
+ * @returns Whether the type is accepted
+ */
+export function isSupportedMimeType(kind: FileKind, mimeType: string): boolean {
+  return SUPPORTED_MIME_TYPES[kind].includes(normalizeMimeType(mimeType))
+}
+
+function ascii(buffer: Buffer, start: number, end: number) {
+  return buffer.length >= end ? buffer.toString("ascii", start, end) : ""
+}
+
+/**
+ * Identify a file from its leading bytes
+ * @param buffer File contents, or at least its first `SIGNATURE_BYTES` bytes
+ * @returns Detected format, or null if it is not a supported audio or image format
+ */
+export function detectFileType(buffer: Buffer): DetectedFileType | null {
+  if (ascii(buffer, 0, 4) === "RIFF" && ascii(buffer, 8, 12) === "WAVE") {
+    return { format: "wav", kind: "audio", mimeType: "audio/wav", extension: ".wav" }
+  }
+
+  if (ascii(buffer, 0, 4) === "RIFF" && ascii(buffer, 8, 12) === "WEBP") {
+    return { format: "webp", kind: "image", mimeType: "image/webp", extension: ".webp" }
+  }
+
+  if (ascii(buffer, 0, 4) === "fLaC") {
+    return { format: "flac", kind: "audio", mimeType: "audio/flac", extension: ".flac" }
+  }
+
+  if (ascii(buffer, 0, 4) === "OggS") {
+    return { format: "ogg", kind: "audio", mimeType: "audio/ogg", extension: ".ogg" }
+  }
+
+  if (ascii(buffer, 4, 8) === "ftyp" && M4A_BRANDS.includes(ascii(buffer, 8, 12))) {
+    return { format: "m4a", kind: "audio", mimeType: "audio/mp4", extension: ".m4a" }
+  }
+
+  if (ascii(buffer, 0, 3) === "ID3") {
+    return { format: "mp3", kind: "audio", mimeType: "audio/mpeg", extension: ".mp3" }
+  }
+
+  if (buffer.length >= 3 && buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff) {
+    return { format: "jpeg", kind: "image", mimeType: "image/jpeg", extension: ".jpg" }
+  }
+
+  const pngSignature = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]
+  if (buffer.length >= 8 && pngSignature.every((byte, i) => buffer[i] === byte)) {
+    return { format: "png", kind: "image", mimeType: "image/png", extension: ".png" }
+  }
+
+  // MPEG audio sync word: layer bits 00 mean an AAC ADTS header, anything else is MPEG layer I-III
+  if (buffer.length >= 4 && buffer[0] === 0xff && (buffer[1] & 0xe0) === 0xe0) {
+    const versionBits = (buffer[1] >> 3) & 0x03
+    const layerBits = (buffer[1] >> 1) & 0x03
+    const bitrateIndex = (buffer[2] >> 4) & 0x0f
+    const sampleRateIndex = (buffer[2] >> 2) & 0x03
+
+    if ((buffer[1] & 0xf6) === 0xf0) {
+      return { format: "aac", kind: "audio", mimeType: "audio/aac", extension: ".aac" }
+    }
+
+    if (versionBits !== 1 && layerBits !== 0 && bitrateIndex !== 15 && sampleRateIndex !== 3) {
+      return { format: "mp3", kind: "audio", mimeType: "audio/mpeg", extension: ".mp3" }
+    }
+  }
+
+  return null
+}
+
+/**
+ * Verify that a file's content is a supported format of the expected kind matching its declared type
+ * @param buffer File contents, or at least its first `SIGNATURE_BYTES` bytes
+ * @param kind Expected kind
+ * @param declaredMimeType MIME type the client declared
+ * @returns Detected type, or an error message
+ */
+export function verifyFileType(
+  buffer: Buffer,
+  kind: FileKind,
+  declaredMimeType: string,
+): { type: DetectedFileType; error?: undefined } | { type?: undefined; error: string } {
+  const type = detectFileType(buffer)
+
+  if (!type || type.kind !== kind) {
+    return { error: `File content is not a supported ${kind} format` }
+  }
+
+  if (normalizeMimeType(declaredMimeType) !== type.mimeType) {
+    return { error: `File content is ${type.mimeType} but was declared as ${declaredMimeType}` }
+  }
+
+  return { type }
+}
@@ -0,0 +1,68 @@
+// Page size used when the client does not ask for one, and the most a client may ask for
+export const DEFAULT_PAGE_SIZE = 20
+export const MAX_PAGE_SIZE = 100
+
+export interface PageParams {
+  limit: number
+  cursor?: string
+}
+
+export interface Page<T> {
+  items: T[]
+  nextCursor: string | null
+}
+
+/**
+ * Read `limit` and `cursor` from a query string
+ * @param query Express request query
+ * @returns Page size clamped to MAX_PAGE_SIZE and the optional cursor
+ */
+export function parsePageParams(query: any): PageParams {
+  const requested = Number.parseInt(String(query.limit ?? ""), 10)
+  const limit = Number.isFinite(requested) && requested > 0 ? Math.min(requested, MAX_PAGE_SIZE) : DEFAULT_PAGE_SIZE
+  const cursor = typeof query.cursor === "string" && query.cursor ? query.cursor : undefined
+
+  return { limit, cursor }
+}
+
+/**
+ * Prisma findMany arguments for a page. One extra row is fetched to know whether another page exists.
+ * The cursor is the ID of the last item of the previous page, so orderBy must end with `id` to be stable.
+ * @param params Page parameters
+ * @returns take/cursor/skip arguments
+ */
+export function pageArgs(params: PageParams) {
+  return {
+    take: params.limit + 1,
+    ...(params.cursor ? { cursor: { id: params.cursor }, skip: 1 } : {}),
+  }
+}
+
+/**
+ * Trim the extra row fetched by pageArgs and compute the next cursor
+ * @param rows Rows returned by findMany
+ * @param params Page parameters
+ * @returns Page of items with the cursor for the next page
+ */
+export function toPage<T extends { id: string }>(rows: T[], params: PageParams): Page<T> {
+  const hasMore = rows.length > params.limit
+  const items = hasMore ? rows.slice(0, params.limit) : rows
+
+  return {
+    items,
+    nextCursor: hasMore ? items[items.length - 1].id : null,
+  }
+}
+
+/**
+ * Read the opt-in `include` parameter (comma-separated) and keep only allowed relations
+ * @param query Express request query
+ * @param allowed Relations the route lets clients include
+ * @returns Set of requested relations
+ */
+export function parseIncludes<T extends string>(query: any, allowed: readonly T[]): Set<T> {
+  const raw = typeof query.include === "string" ? query.include.split(",") : []
+  return new Set(
+    raw.map((value: string) => value.trim()).filter((value: string): value is T => allowed.includes(value as T)),
+  )
+}
@@ -0,0 +1,11 @@
+// The only fields of a user that may appear in responses about other users: public profiles and every
+// nested `user`, `owner`, `artist`, etc. Email, password hash and wallets stay private.
+export const publicUserSelect = {
+  id: true,
+  name: true,
+  image: true,
+  bio: true,
+  location: true,
+  ensName: true,
+  createdAt: true,
+}
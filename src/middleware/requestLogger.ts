@@ -9,6 +9,7 @@ morgan.token("req-body", (req: Request) => {
     // Redact sensitive information
     if (body.password) body.password = "[REDACTED]"
     if (body.token) body.token = "[REDACTED]"
+    if (body.refreshToken) body.refreshToken = "[REDACTED]"
     if (body.apiKey) body.apiKey = "[REDACTED]"
 
     return JSON.stringify(body)
@@ -24,7 +25,10 @@ morgan.token("res-body", (req: Request, res: Response) => {
 
         // Redact sensitive information
         if (body.token) body.token = "[REDACTED]"
+        if (body.accessToken) body.accessToken = "[REDACTED]"
+        if (body.refreshToken) body.refreshToken = "[REDACTED]"
         if (body.password) body.password = "[REDACTED]"
+        if (body.passwordHash) body.passwordHash = "[REDACTED]"
 
         return JSON.stringify(body)
     } catch (e) {
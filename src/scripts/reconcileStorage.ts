@@ -0,0 +1,28 @@
+import { reconcileStorage } from "../api/services/storageGcService"
+import logger from "../config/logger"
+
+// Report (or with --purge, delete) stored riff files that no riff references
+async function main() {
+  const purge = process.argv.includes("--purge")
+  const report = await reconcileStorage(purge)
+
+  for (const object of report.orphans) {
+    console.log(`${purge ? "purged" : "orphan"}\t${object.key}\t${object.size}\t${object.lastModified.toISOString()}`)
+  }
+
+  for (const { riffId, key } of report.missing) {
+    console.log(`missing\t${key}\triff ${riffId}`)
+  }
+
+  console.log(
+    `Scanned ${report.scanned} objects: ${report.orphans.length} orphaned, ${report.missing.length} missing, ` +
+      `${report.purged} purged`,
+  )
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    logger.error(`Storage reconciliation failed: ${error}`)
+    process.exit(1)
+  })
@@ -2,12 +2,23 @@ import express from "express"
 import cors from "cors"
 import helmet from "helmet"
 import { PrismaClient } from "@prisma/client"
+import { authRoutes } from "./api/routes/authRoutes"
 import { userRoutes } from "./api/routes/userRoutes"
 import { riffRoutes } from "./api/routes/riffRoutes"
 import { nftRoutes } from "./api/routes/nftRoutes"
+import { unlockableRoutes } from "./api/routes/unlockableRoutes"
 import { stakingRoutes } from "./api/routes/stakingRoutes"
 import { tokenRoutes } from "./api/routes/tokenRoutes"
+import { storageRoutes } from "./api/routes/storageRoutes"
+import { messageRoutes } from "./api/routes/messageRoutes"
+import { collectionRoutes } from "./api/routes/collectionRoutes"
+import { feedRoutes } from "./api/routes/feedRoutes"
+import { notificationRoutes } from "./api/routes/notificationRoutes"
 import { captureResponseBody, httpLogger } from "./middleware/requestLogger"
+import { resumePendingMints } from "./api/services/mintingService"
+import { startStakingRewardsScheduler } from "./api/services/stakingRewardsService"
+import { startUploadCleanupScheduler } from "./api/services/uploadService"
+import { startStorageGcScheduler } from "./api/services/storageGcService"
 import logger from "./config/logger"
 
 // Initialize Express app
@@ -26,11 +37,18 @@ app.use(captureResponseBody)
 app.use(httpLogger)
 
 // API routes
+app.use("/api/auth", authRoutes)
 app.use("/api/users", userRoutes)
 app.use("/api/riffs", riffRoutes)
 app.use("/api/nfts", nftRoutes)
+app.use("/api/nfts", unlockableRoutes)
 app.use("/api/staking", stakingRoutes)
 app.use("/api/tokens", tokenRoutes)
+app.use("/api/storage", storageRoutes)
+app.use("/api/messages", messageRoutes)
+app.use("/api/collections", collectionRoutes)
+app.use("/api/feed", feedRoutes)
+app.use("/api/notifications", notificationRoutes)
 
 // Health check endpoint
 app.get("/health", (req, res) => {
@@ -56,6 +74,20 @@ app.use((err: any, req: express.Request, res: express.Response, next: express.Ne
 app.listen(PORT, () => {
   logger.info(`Server started on port ${PORT}`)
   logger.info(`Environment: ${process.env.NODE_ENV || "development"}`)
+
+  // Pick up mints interrupted by a restart
+  resumePendingMints().catch((error) => {
+    logger.error(`Error resuming pending mints: ${error}`)
+  })
+
+  // Accrue staking rewards and unlock expired stakes periodically
+  startStakingRewardsScheduler()
+
+  // Delete files of direct uploads that were never finalized
+  startUploadCleanupScheduler()
+
+  // Report or purge stored files no riff references
+  startStorageGcScheduler()
 })
 
 // Handle uncaught exceptions
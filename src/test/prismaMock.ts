@@ -0,0 +1,71 @@
+import { Prisma } from "@prisma/client"
+
+type Client = Prisma.TransactionClient
+
+type ModelName = {
+  [Key in keyof Client]: Key extends `$${string}` ? never : Key
+}[keyof Client]
+
+// A method mock takes the real Prisma arguments, so fakes stop type-checking when a service's queries change
+type MethodMock<Method> = Method extends (...args: infer Args) => unknown ? jest.Mock<any, Args> : never
+
+export type PrismaMock = {
+  [Model in ModelName]: { [Method in keyof Client[Model]]: MethodMock<Client[Model][Method]> }
+} & {
+  // Runs interactive transactions against the same mock
+  $transaction: <T>(run: (tx: Client) => Promise<T>) => Promise<T>
+}
+
+// Delegate names as they appear on the client, e.g. "nFT" for model NFT
+const delegateNames = new Set(Object.values(Prisma.ModelName).map((name) => name[0].toLowerCase() + name.slice(1)))
+
+/**
+ * Create a Prisma client stand-in whose model methods are jest mocks, created on first use
+ * @returns Mock client
+ */
+export function createPrismaMock(): PrismaMock {
+  const models = new Map<string, Record<string, jest.Mock>>()
+
+  const model = (name: string) =>
+    new Proxy({} as Record<string, jest.Mock>, {
+      get(methods, method) {
+        // Not thenable, so a model can be returned from an async function
+        if (typeof method !== "string" || method === "then") {
+          return undefined
+        }
+        methods[method] ??= jest.fn().mockName(`${name}.${method}`)
+        return methods[method]
+      },
+    })
+
+  const transaction = <T>(run: (tx: Client) => Promise<T>) => run(asTransactionClient(client))
+
+  const client = new Proxy({} as PrismaMock, {
+    get(_, name) {
+      if (name === "$transaction") {
+        return transaction
+      }
+      if (typeof name !== "string" || !delegateNames.has(name)) {
+        return undefined
+      }
+      if (!models.has(name)) {
+        models.set(name, model(name))
+      }
+      return models.get(name)
+    },
+  })
+
+  return client
+}
+
+/**
+ * The mock as the transaction client services take
+ * @param mock Mock client
+ * @returns Transaction client
+ */
+export function asTransactionClient(mock: PrismaMock): Prisma.TransactionClient {
+  return mock as unknown as Prisma.TransactionClient
+}
+
+// Shared by every `new PrismaClient()` in the modules a test file loads (see setup.ts)
+export const prismaMock = createPrismaMock()
@@ -0,0 +1,20 @@
+// Fixed configuration for unit tests, independent of the developer's .env
+process.env.SIWE_DOMAIN = "riffblock.test"
+process.env.CHAIN_ID = "1"
+process.env.STORAGE_PUBLIC_URL = "http://storage.test/api/storage"
+process.env.STORAGE_SIGNING_SECRET = "test-signing-secret"
+process.env.STAKING_REWARD_APR = "12"
+process.env.REMIX_UPSTREAM_SHARE = "10"
+process.env.PREVIEW_CLIP_SECONDS = "30"
+
+// Keep test runs out of the log files
+jest.mock("../config/logger", () => ({
+  __esModule: true,
+  default: { error: jest.fn(), warn: jest.fn(), info: jest.fn(), http: jest.fn(), debug: jest.fn() },
+}))
+
+// Unit tests never reach a database: every client is the shared mock from prismaMock.ts
+jest.mock("@prisma/client", () => ({
+  ...jest.requireActual("@prisma/client"),
+  PrismaClient: jest.fn(() => jest.requireActual("./prismaMock").prismaMock),
+}))